@@ -0,0 +1,45 @@
+import type { ArchiveEventMap } from './types';
+
+export type ArchiveEventType = keyof ArchiveEventMap;
+export type ArchiveEventListener<K extends ArchiveEventType> = (detail: ArchiveEventMap[K]) => void;
+
+// Typed events of the archive grid. Unlike the single on* callbacks ArchiveView uses,
+// any number of modules can listen without replacing each other.
+export class ArchiveEvents {
+  private listeners: { [K in ArchiveEventType]?: Set<ArchiveEventListener<K>> } = {};
+  private targets: Set<ArchiveEvents> = new Set(); // Emitters that receive every event too
+
+  // Returns a function removing the listener again
+  public on<K extends ArchiveEventType>(type: K, listener: ArchiveEventListener<K>): () => void {
+    let listeners = this.listeners[type] as Set<ArchiveEventListener<K>> | undefined;
+    if (!listeners) {
+      listeners = new Set();
+      (this.listeners as Record<K, Set<ArchiveEventListener<K>>>)[type] = listeners;
+    }
+    listeners.add(listener);
+
+    return () => this.off(type, listener);
+  }
+
+  public off<K extends ArchiveEventType>(type: K, listener: ArchiveEventListener<K>) {
+    const listeners = this.listeners[type] as Set<ArchiveEventListener<K>> | undefined;
+    listeners?.delete(listener);
+  }
+
+  public emit<K extends ArchiveEventType>(type: K, detail: ArchiveEventMap[K]) {
+    const listeners = this.listeners[type] as Set<ArchiveEventListener<K>> | undefined;
+    listeners?.forEach((listener) => listener(detail));
+    this.targets.forEach((target) => target.emit(type, detail));
+  }
+
+  // Re-emit every event on another emitter, e.g. from a grid to the view that owns it
+  public pipe(target: ArchiveEvents): () => void {
+    this.targets.add(target);
+    return () => this.targets.delete(target);
+  }
+
+  public clear() {
+    this.listeners = {};
+    this.targets.clear();
+  }
+}
@@ -0,0 +1,160 @@
+import { getAccordionEvent } from '../../utils/accordionConfig';
+import type { CMSImage } from '../../utils/imageDataParser';
+
+// List of every archive image with its alt text, event and caption, for screen readers and
+// search engines that can't see into the canvas. Off screen it follows the tile the camera is
+// centered on; as a plain list (prefers-reduced-motion) it replaces the grid altogether.
+export class ArchiveMirror {
+  private container: HTMLElement;
+  private images: CMSImage[];
+  private isPlain: boolean;
+  private list: HTMLOListElement | null = null;
+  private entries: Map<CMSImage, HTMLLIElement> = new Map();
+  private imageElements: HTMLImageElement[] = []; // In image order, without a src until sized
+  private currentEntry: HTMLLIElement | null = null; // Entry of the centered tile
+  public onActivate: ((image: CMSImage, index: number) => void) | null = null;
+
+  constructor(container: HTMLElement, images: CMSImage[], isPlain = false) {
+    this.container = container;
+    this.images = images;
+    this.isPlain = isPlain;
+    this.setupDOM();
+  }
+
+  private setupDOM(): void {
+    this.list = document.createElement('ol');
+    this.list.className = this.isPlain ? 'archive-mirror is-plain' : 'archive-mirror';
+    this.list.setAttribute('aria-label', 'Archive images');
+    this.list.style.margin = '0';
+    this.list.style.listStyle = 'none';
+
+    if (this.isPlain) {
+      // Scrollable columns of images filling the archive container
+      this.list.style.position = 'absolute';
+      this.list.style.top = '0';
+      this.list.style.left = '0';
+      this.list.style.width = '100%';
+      this.list.style.height = '100%';
+      this.list.style.boxSizing = 'border-box';
+      this.list.style.padding = '2rem 2rem calc(4rem + 48px)';
+      this.list.style.overflowY = 'auto';
+      this.list.style.display = 'grid';
+      this.list.style.gridTemplateColumns = 'repeat(auto-fill, minmax(12rem, 1fr))';
+      this.list.style.gap = '2rem';
+      this.list.style.alignItems = 'start';
+    } else {
+      // Visually hidden like the live region, but still reachable with Tab
+      this.list.style.position = 'absolute';
+      this.list.style.width = '1px';
+      this.list.style.height = '1px';
+      this.list.style.padding = '0';
+      this.list.style.overflow = 'hidden';
+      this.list.style.clip = 'rect(0 0 0 0)';
+      this.list.style.whiteSpace = 'nowrap';
+    }
+
+    this.images.forEach((image, index) => {
+      const entry = this.createEntry(image, index);
+      this.entries.set(image, entry);
+      this.list?.appendChild(entry);
+    });
+
+    this.container.appendChild(this.list);
+  }
+
+  private createEntry(image: CMSImage, index: number): HTMLLIElement {
+    const entry = document.createElement('li');
+    entry.className = 'archive-mirror__item';
+
+    const button = document.createElement('button');
+    button.className = 'archive-mirror__button';
+    button.type = 'button';
+    button.style.display = 'block';
+    button.style.width = '100%';
+    button.style.padding = '0';
+    button.style.border = 'none';
+    button.style.background = 'none';
+    button.style.color = '#F3F2F0';
+    button.style.font = 'inherit';
+    button.style.textAlign = 'left';
+    button.style.cursor = 'pointer';
+    button.addEventListener('click', () => {
+      if (this.onActivate) {
+        this.onActivate(image, index);
+      }
+    });
+
+    const img = document.createElement('img');
+    img.className = 'archive-mirror__image';
+    img.alt = image.alt || image.caption || '';
+    img.width = image.file.details.image.width;
+    img.height = image.file.details.image.height;
+    img.loading = 'lazy';
+    img.decoding = 'async';
+    img.style.display = 'block';
+    img.style.width = '100%';
+    img.style.height = 'auto';
+    img.style.backgroundColor = image.file.color;
+    this.imageElements[index] = img;
+    button.appendChild(img);
+
+    const event = image.eventId ? getAccordionEvent(image.eventId) : null;
+    const details = [event?.displayName, image.caption].filter((text): text is string =>
+      Boolean(text)
+    );
+    details.forEach((text, line) => {
+      const element = document.createElement('span');
+      element.className = 'archive-mirror__text';
+      element.textContent = text;
+      element.style.display = 'block';
+      element.style.marginTop = line === 0 ? '0.5rem' : '0';
+      element.style.opacity = line === 0 ? '1' : '0.6';
+      button.appendChild(element);
+    });
+
+    entry.appendChild(button);
+    return entry;
+  }
+
+  // Sized URLs in image order, built like the grid's so no original is downloaded. Only the
+  // plain list shows its images; the hidden list needs their alt text alone.
+  public setImageSources(sources: string[]): void {
+    this.imageElements.forEach((img, index) => {
+      if (sources[index]) {
+        img.src = sources[index];
+      }
+    });
+  }
+
+  // Mark the image of the centered tile, or nothing for null
+  public setCurrent(image: CMSImage | null): void {
+    const entry = image ? this.entries.get(image) || null : null;
+    if (entry === this.currentEntry) return;
+
+    if (this.currentEntry) {
+      this.currentEntry.removeAttribute('aria-current');
+    }
+    this.currentEntry = entry;
+    if (entry) {
+      entry.setAttribute('aria-current', 'true');
+    }
+  }
+
+  // Only list the images of one event, or every image for null
+  public setFilter(eventId: string | null): void {
+    this.entries.forEach((entry, image) => {
+      entry.hidden = eventId !== null && image.eventId !== eventId;
+    });
+  }
+
+  public destroy(): void {
+    if (this.list) {
+      this.list.remove();
+      this.list = null;
+    }
+    this.entries.clear();
+    this.imageElements = [];
+    this.currentEntry = null;
+    this.onActivate = null;
+  }
+}
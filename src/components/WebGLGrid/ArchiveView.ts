@@ -1,55 +1,102 @@
 import { gsap } from 'gsap';
 
+import { ACCORDION_EVENTS, type AccordionEvent } from '../../utils/accordionConfig';
+import { getArchiveSession, saveArchiveSession } from '../../utils/archiveSession';
+import { type CMSImage, parseCMSImages } from '../../utils/imageDataParser';
+import {
+  getCameraParams,
+  getFilterParam,
+  setCameraInURL,
+  setFilterInURL,
+} from '../../utils/urlParams';
+import { type ArchiveEventListener, ArchiveEvents, type ArchiveEventType } from './ArchiveEvents';
+import { ArchiveMirror } from './ArchiveMirror';
+import { DOMGrid } from './DOMGrid';
+import { getGridOptionsFromDataset, resolveGridOptions } from './gridOptions';
+import { detectImageFileFormat, getImageSource } from './imageSource';
+import { Lightbox } from './Lightbox';
+import { QualityGovernor, type QualityTier } from './QualityGovernor';
+import { TileTooltip } from './TileTooltip';
+import type {
+  ArchiveRenderer,
+  CameraMoveOptions,
+  CameraState,
+  GridOptions,
+  InitialView,
+} from './types';
 import { WebGLGrid } from './WebGLGrid';
 
 export class ArchiveView {
   private container: HTMLElement;
-  private scene: WebGLGrid | null = null;
-  private images: any[] = [];
+  private scene: ArchiveRenderer | null = null;
+  private images: CMSImage[] = [];
   public isTransitioning = false;
   private isDestroyed = false;
   private rafId: number | null = null;
+  private isRenderPaused = false; // GPU context is gone, don't wake the loop until it's back
   private canvas: HTMLCanvasElement | null = null;
   private zoomUI: HTMLElement | null = null;
+  private filterBar: HTMLElement | null = null;
+  private activeFilter: string | null = null; // Event id whose images are shown, or null for all
+  private tooltip: TileTooltip | null = null; // Event and caption of the hovered tile
+  private lightbox: Lightbox | null = null;
+  private liveRegion: HTMLElement | null = null;
+  private mirror: ArchiveMirror | null = null; // DOM list of the images the canvas draws
+  private isPlainList = false; // Reduced motion: the list replaces the grid
   private resizeObserver: ResizeObserver | null = null;
   private boundHandleResize: () => void;
   private introDelayed = false; // Flag to track if intro should be delayed
   private introTimer: any = null; // Timer for delayed intro
-
-  constructor(container: HTMLElement, delayIntro = false) {
+  private cameraURLTimer: ReturnType<typeof setTimeout> | null = null; // Debounce timer for writing the camera to the URL
+  private gridOptions: Partial<GridOptions>; // Grid configuration from data-* attributes and code
+  private archivePath = ''; // Path the archive was opened on, so other pages never get camera params
+  private gridSize = { columns: 0, rows: 0 }; // Columns and rows the scene is built with
+  private qualityGovernor: QualityGovernor;
+  private lastFrameTime: number | null = null;
+  private isResuming = false; // Reopening this session's last view with a fade, not the intro
+  private static qualityLevel: number | null = null; // Last tier, so the next archive starts there
+  private events = new ArchiveEvents(); // Outlives the grid, so listeners can subscribe before init
+
+  constructor(container: HTMLElement, delayIntro = false, options: Partial<GridOptions> = {}) {
     this.container = container;
     this.introDelayed = delayIntro;
 
-    // Find all images from CMS for use in grid
-    const imageElements = Array.from(container.querySelectorAll('.cms-image'));
-
-    // Always use all images, regardless of device
-    this.images = imageElements.map((img) => {
-      const imgEl = img as HTMLImageElement;
-      return {
-        file: {
-          url: imgEl.src,
-          details: {
-            image: {
-              width: imgEl.naturalWidth || 800,
-              height: imgEl.naturalHeight || 1200,
-            },
-          },
-          contentType: 'image/jpeg',
-          color: '#0F0F0F',
-        },
-      };
-    });
+    // data-* attributes on the container configure the grid; options passed in code win
+    this.gridOptions = { ...getGridOptionsFromDataset(container), ...options };
+
+    // Step quality with the measured frame rate, starting where the last archive settled
+    this.qualityGovernor = new QualityGovernor(ArchiveView.qualityLevel ?? undefined);
+    this.qualityGovernor.onChange = (tier) => this.applyQualityTier(tier);
+    this.container.dataset.qualityTier = this.qualityGovernor.tier.name;
+
+    // Always use all images from the CMS, regardless of device, with their real metadata
+    this.images = parseCMSImages(container);
+
+    // Start on the event from a shared link, if it has any images
+    const filter = getFilterParam();
+    if (filter && this.getFilterEvents().some((event) => event.id === filter)) {
+      this.activeFilter = filter;
+    }
 
     // Bind the resize handler once to preserve reference
     this.boundHandleResize = this.handleResize.bind(this);
 
+    // A pannable, zooming grid is all motion, so reduced motion gets a plain image list
+    this.isPlainList = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+
     // Setup DOM and styles
     this.setupDOM();
+    if (this.isPlainList) {
+      this.loadMirrorSources();
+    }
   }
 
   // New method to trigger the delayed intro sequence
   public triggerIntroSequence(): void {
+    if (this.isPlainList && !this.isDestroyed) {
+      this.show();
+      return;
+    }
     if (!this.scene || this.isDestroyed) return;
 
     // Don't trigger if intro is already shown
@@ -97,7 +144,7 @@ export class ArchiveView {
     archiveContainer.style.left = '0';
     archiveContainer.style.width = '100vw';
     archiveContainer.style.height = '100vh';
-    archiveContainer.style.backgroundColor = '#0F0F0F';
+    archiveContainer.style.backgroundColor = this.getBackgroundColor();
     archiveContainer.style.zIndex = '10';
     archiveContainer.style.overflow = 'hidden';
 
@@ -110,9 +157,39 @@ export class ArchiveView {
     this.canvas.style.width = '100%';
     this.canvas.style.height = '100%';
     this.canvas.style.display = 'block';
-    this.canvas.style.backgroundColor = '#0F0F0F';
+    this.canvas.style.backgroundColor = this.getBackgroundColor();
+    this.canvas.style.outline = 'none';
+
+    // Make the canvas reachable by keyboard
+    this.canvas.tabIndex = 0;
+    this.canvas.setAttribute('role', 'application');
+    this.canvas.setAttribute(
+      'aria-label',
+      'Image archive. Use arrow keys or WASD to pan, plus and minus to zoom, Home to recenter, Tab to move between images and Enter to open one.'
+    );
     archiveContainer.appendChild(this.canvas);
 
+    // Live region announcing the focused image to screen readers
+    this.liveRegion = document.createElement('div');
+    this.liveRegion.className = 'archive-live-region';
+    this.liveRegion.setAttribute('aria-live', 'polite');
+    this.liveRegion.setAttribute('aria-atomic', 'true');
+    this.liveRegion.style.position = 'absolute';
+    this.liveRegion.style.width = '1px';
+    this.liveRegion.style.height = '1px';
+    this.liveRegion.style.overflow = 'hidden';
+    this.liveRegion.style.clip = 'rect(0 0 0 0)';
+    this.liveRegion.style.whiteSpace = 'nowrap';
+    archiveContainer.appendChild(this.liveRegion);
+
+    // Every image as a list, following the centered tile or shown instead of the canvas
+    this.mirror = new ArchiveMirror(archiveContainer, this.images, this.isPlainList);
+    this.mirror.setFilter(this.activeFilter);
+    this.mirror.onActivate = (image, index) => this.activateMirrorImage(image, index);
+    if (this.isPlainList) {
+      this.canvas.style.display = 'none';
+    }
+
     // Create zoom UI
     this.zoomUI = document.createElement('div');
     this.zoomUI.className = 'archiveZoomUI';
@@ -184,13 +261,160 @@ export class ArchiveView {
     // Add to the container
     this.container.appendChild(this.zoomUI);
 
+    // Event filter above the zoom buttons
+    this.createFilterBar();
+
+    // Tooltip over the hovered tile, linking to its event on the index page
+    this.tooltip = new TileTooltip(this.container);
+
+    // Dragging hides the tooltip straight away
+    archiveContainer.addEventListener('pointerdown', () => {
+      if (this.tooltip) {
+        this.tooltip.hideNow();
+      }
+    });
+
     // Add the archive container to the container
     this.container.appendChild(archiveContainer);
 
+    // Create lightbox for browsing individual images
+    this.lightbox = new Lightbox(this.container);
+
     // Set up resize observer
     this.setupResizeObserver(archiveContainer);
   }
 
+  // Events that have at least one image in the archive, in accordion order
+  private getFilterEvents(): AccordionEvent[] {
+    return Object.values(ACCORDION_EVENTS).filter((event) =>
+      this.images.some((image) => image.eventId === event.id)
+    );
+  }
+
+  private createFilterBar(): void {
+    const events = this.getFilterEvents();
+    if (events.length === 0) return;
+
+    this.filterBar = document.createElement('div');
+    this.filterBar.className = 'archiveFilterBar';
+    this.filterBar.setAttribute('role', 'group');
+    this.filterBar.setAttribute('aria-label', 'Filter images by event');
+    this.filterBar.style.position = 'fixed';
+    this.filterBar.style.zIndex = '999';
+    this.filterBar.style.display = 'flex';
+    this.filterBar.style.gap = '2px';
+    this.filterBar.style.bottom = 'calc(2rem + 48px)';
+    this.filterBar.style.left = '50%';
+    this.filterBar.style.transform = 'translateX(-50%)';
+    this.filterBar.style.maxWidth = 'calc(100vw - 2rem)';
+    this.filterBar.style.overflowX = 'auto';
+    this.filterBar.style.opacity = '0';
+    this.filterBar.style.transition = 'opacity 0.3s ease';
+
+    const options: { id: string | null; label: string }[] = [
+      { id: null, label: 'All' },
+      ...events.map((event) => ({ id: event.id, label: event.displayName })),
+    ];
+
+    options.forEach(({ id, label }) => {
+      const button = document.createElement('button');
+      button.className = 'archiveFilterBar__button';
+      button.type = 'button';
+      button.textContent = label;
+      button.dataset.event = id ?? '';
+      button.style.flex = 'none';
+      button.style.height = '40px';
+      button.style.padding = '0 1rem';
+      button.style.border = 'none';
+      button.style.cursor = 'pointer';
+      button.style.whiteSpace = 'nowrap';
+      button.style.font = 'inherit';
+      button.addEventListener('click', () => this.setFilter(id));
+      this.filterBar?.appendChild(button);
+    });
+
+    this.updateFilterBar();
+    this.container.appendChild(this.filterBar);
+  }
+
+  // Highlight the button of the active filter
+  private updateFilterBar(): void {
+    if (!this.filterBar) return;
+
+    this.filterBar.querySelectorAll<HTMLButtonElement>('button').forEach((button) => {
+      const isActive = (button.dataset.event || null) === this.activeFilter;
+      button.setAttribute('aria-pressed', `${isActive}`);
+      button.style.backgroundColor = isActive ? '#F3F2F0' : '#424242';
+      button.style.color = isActive ? '#424242' : '#F3F2F0';
+    });
+  }
+
+  // Show only the images of one event, or every image for null
+  public setFilter(eventId: string | null): void {
+    if (eventId === this.activeFilter) return;
+    this.activeFilter = eventId;
+    this.updateFilterBar();
+
+    if (this.scene) {
+      this.scene.setFilter(eventId);
+    }
+    if (this.mirror) {
+      this.mirror.setFilter(eventId);
+    }
+
+    if (window.location.pathname === this.archivePath) {
+      setFilterInURL(eventId);
+    }
+
+    if (this.liveRegion) {
+      const event = this.getFilterEvents().find(({ id }) => id === eventId);
+      this.liveRegion.textContent = event ? `Showing ${event.displayName}` : 'Showing all images';
+    }
+  }
+
+  // Center the image's tile, or open it in the lightbox when there is no grid to move
+  private activateMirrorImage(image: CMSImage, index: number): void {
+    if (this.isPlainList) {
+      this.getImageSources(true).then((sources) => {
+        if (this.lightbox && !this.isDestroyed) {
+          this.lightbox.open(sources, index);
+        }
+      });
+      return;
+    }
+
+    this.flyTo(image.file.url);
+  }
+
+  private async loadMirrorSources(): Promise<void> {
+    const sources = await this.getImageSources(false);
+    if (this.mirror && !this.isDestroyed) {
+      this.mirror.setImageSources(sources);
+    }
+  }
+
+  // Image URLs in CMS order, built with the provider, format and sizes the grids use, for
+  // the mirror list and the plain list's lightbox that have no grid to ask
+  private async getImageSources(isHD: boolean): Promise<string[]> {
+    const options = resolveGridOptions(this.isMobileViewport(), this.getSceneOptions());
+    const fileFormat = await detectImageFileFormat();
+
+    return this.images.map((image) =>
+      getImageSource(
+        image,
+        {
+          fileFormat,
+          pixelRatio: Math.min(options.pixelRatio, options.maxPixelRatio ?? Infinity),
+          provider: options.imageProvider,
+          sizing: options.imageSizing,
+          sizes: options.imageSizes,
+          quality: options.imageQuality,
+        },
+        isHD
+      )
+    );
+  }
+
   // Set up a ResizeObserver to handle container resizing
   private setupResizeObserver(container: HTMLElement): void {
     if ('ResizeObserver' in window) {
@@ -199,6 +423,7 @@ export class ArchiveView {
           if (entry.target === container && this.scene) {
             // The container has been resized, update the WebGLGrid
             this.scene.setWindow();
+            this.wakeRenderLoop();
           }
         }
       });
@@ -213,6 +438,7 @@ export class ArchiveView {
   private handleResize = (): void => {
     if (this.scene) {
       this.scene.setWindow();
+      this.wakeRenderLoop();
     }
   };
 
@@ -231,14 +457,105 @@ export class ArchiveView {
       // Detect if mobile for WebGLGrid initialization
       const isMobile = this.isMobileViewport();
 
-      // Create WebGL grid with the introDelayed flag
-      this.scene = new WebGLGrid(this.canvas, this.images, isMobile, this.introDelayed);
+      // Land on the view from a shared link, or resume this session's last view
+      const { columnCount, rowCount } = resolveGridOptions(isMobile, this.getSceneOptions());
+      this.gridSize = { columns: columnCount, rows: rowCount };
+      this.archivePath = window.location.pathname;
+      const initialState = this.getInitialCameraState();
+      this.isResuming = initialState.resume ?? false;
+
+      // The plain list is already complete without a grid
+      if (this.isPlainList) {
+        this.isTransitioning = false;
+        return;
+      }
+
+      // Create WebGL grid with the introDelayed flag, or fall back to DOM tiles without WebGL
+      const sceneOptions = this.getSceneOptions();
+      if (WebGLGrid.isSupported()) {
+        this.scene = new WebGLGrid(
+          this.canvas,
+          this.images,
+          isMobile,
+          this.introDelayed,
+          initialState,
+          sceneOptions
+        );
+      } else {
+        this.canvas.style.display = 'none';
+        this.scene = new DOMGrid(
+          this.canvas.parentElement || this.container,
+          this.images,
+          isMobile,
+          this.introDelayed,
+          initialState,
+          sceneOptions
+        );
+      }
+      this.scene.setQuality?.(this.qualityGovernor.tier);
+      this.scene.setFilter(this.activeFilter);
+      this.scene.events.pipe(this.events);
+
+      // Keep the mirror list on the tile the camera is centered on
+      const syncMirror = () => {
+        if (this.mirror && this.scene) {
+          this.mirror.setCurrent(this.scene.getCenteredImage());
+        }
+      };
+      this.scene.events.on('introcomplete', syncMirror);
+      this.scene.events.on('panend', syncMirror);
+      this.scene.events.on('zoomchange', syncMirror);
 
       // Register callback for when intro is mostly done
       this.scene.onIntroMostlyDone = () => {
         this.showZoomUI();
       };
 
+      // Open the clicked tile in the lightbox
+      this.scene.onTileClick = (_image, index) => {
+        if (this.scene && this.lightbox) {
+          this.lightbox.open(this.scene.getImageSources(true), index);
+        }
+      };
+
+      // Pause rendering while the GPU context is gone and resume once rebuilt
+      this.scene.onContextLost = () => {
+        this.isRenderPaused = true;
+        this.stopRenderLoop();
+      };
+      this.scene.onContextRestored = () => {
+        this.isRenderPaused = false;
+        if (!this.isDestroyed) {
+          this.startRenderLoop();
+        }
+      };
+
+      // Input and texture loads restart the loop once it has gone idle
+      this.scene.onInvalidate = () => {
+        this.wakeRenderLoop();
+      };
+
+      // Describe the hovered tile; the grid reports null while dragging and before the intro
+      this.scene.onTileHover = (hover) => {
+        if (!this.tooltip) return;
+
+        if (hover) {
+          this.tooltip.show(hover);
+        } else {
+          this.tooltip.hide();
+        }
+      };
+
+      // Announce the keyboard-focused tile
+      this.scene.onTileFocus = (image, index) => {
+        this.announceImage(image, index);
+      };
+
+      // Keep the URL in sync with the view so it can be shared
+      this.scene.onCameraChange = () => {
+        this.scheduleCameraURLUpdate();
+      };
+
       // Start rendering loop
       this.startRenderLoop();
 
@@ -249,22 +566,169 @@ export class ArchiveView {
     }
   }
 
+  // Grid options at the current quality tier; explicit options still win
+  private getSceneOptions(): Partial<GridOptions> {
+    const { tier } = this.qualityGovernor;
+    return {
+      maxPixelRatio: tier.maxPixelRatio,
+      ...this.gridOptions,
+    };
+  }
+
+  private applyQualityTier(tier: QualityTier): void {
+    ArchiveView.qualityLevel = this.qualityGovernor.getLevel();
+    this.container.dataset.qualityTier = tier.name;
+
+    if (this.scene && this.scene.setQuality) {
+      this.scene.setQuality(tier);
+    }
+  }
+
+  // Current quality tier, for debugging and tuning
+  public getQualityTier(): QualityTier {
+    return this.qualityGovernor.tier;
+  }
+
+  // Validated like the grid's, so the container matches the WebGL clear colour
+  private getBackgroundColor(): string {
+    return resolveGridOptions(this.isMobileViewport(), this.gridOptions).backgroundColor;
+  }
+
+  private getInitialCameraState(): InitialView {
+    const params = getCameraParams();
+    const state: InitialView = {};
+
+    if (params.x !== null) state.x = params.x;
+    if (params.y !== null) state.y = params.y;
+    if (params.zoom !== null && params.zoom > 0) state.zoom = params.zoom;
+    if (params.seed !== null) state.seed = params.seed;
+
+    // An explicit seed pins the layout even when the link carries another one
+    if (this.gridOptions.seed !== undefined) state.seed = this.gridOptions.seed;
+
+    // Coming back without a link, or reloading the session's own link, resumes the last view.
+    // The saved camera only points at the same tiles in a grid of the same size and filter.
+    const session = getArchiveSession();
+    const hasLinkedView = params.x !== null || params.y !== null || params.zoom !== null;
+    const isSameLayout =
+      session !== null &&
+      session.columns === this.gridSize.columns &&
+      session.rows === this.gridSize.rows &&
+      (this.activeFilter === null || this.activeFilter === session.filter) &&
+      (session.filter === null || this.getFilterEvents().some(({ id }) => id === session.filter));
+    if (
+      session &&
+      isSameLayout &&
+      (state.seed === undefined ? !hasLinkedView : state.seed === session.seed)
+    ) {
+      this.setFilter(session.filter);
+      const { x, y, zoom, seed } = session;
+      return { x, y, zoom, seed, ...state, resume: true };
+    }
+
+    return state;
+  }
+
+  // Remember the view so coming back in this session resumes it
+  private saveSession(): void {
+    if (!this.scene || !this.scene.isIntroShown) return;
+    saveArchiveSession({
+      ...this.scene.getCameraState(),
+      filter: this.activeFilter,
+      ...this.gridSize,
+    });
+  }
+
+  // Seed of the current layout, or null before the grid exists
+  public getSeed(): number | null {
+    return this.scene ? this.scene.getSeed() : null;
+  }
+
+  // Listen to zoomchange, panend, tilehover, tileclick or introcomplete; returns an unsubscribe
+  public on<K extends ArchiveEventType>(type: K, listener: ArchiveEventListener<K>): () => void {
+    return this.events.on(type, listener);
+  }
+
+  public off<K extends ArchiveEventType>(type: K, listener: ArchiveEventListener<K>): void {
+    this.events.off(type, listener);
+  }
+
+  // Current view, or null before the grid exists
+  public getCameraState(): CameraState | null {
+    return this.scene ? this.scene.getCameraState() : null;
+  }
+
+  // Center a tile showing the image (index or URL); false before the intro or if none shows it
+  public flyTo(target: number | string, options?: CameraMoveOptions): boolean {
+    return this.scene ? this.scene.flyTo(target, options) : false;
+  }
+
+  public panBy(dx: number, dy: number, options?: CameraMoveOptions): void {
+    this.scene?.panBy(dx, dy, options);
+  }
+
+  public setZoom(
+    zoom: number,
+    focal?: { x: number; y: number },
+    options?: CameraMoveOptions
+  ): void {
+    this.scene?.setZoom(zoom, focal, options);
+  }
+
+  private scheduleCameraURLUpdate(): void {
+    if (this.cameraURLTimer) {
+      clearTimeout(this.cameraURLTimer);
+    }
+
+    this.cameraURLTimer = setTimeout(() => {
+      this.cameraURLTimer = null;
+      if (this.isDestroyed) return;
+
+      this.saveSession();
+      if (!this.scene || window.location.pathname !== this.archivePath) return;
+
+      setCameraInURL(this.scene.getCameraState());
+    }, 300);
+  }
+
+  private announceImage(image: { alt?: string; caption?: string }, index: number): void {
+    if (!this.liveRegion) return;
+
+    const position = `Image ${index + 1} of ${this.images.length}`;
+    const description = image.alt || image.caption;
+    this.liveRegion.textContent = description ? `${position}: ${description}` : position;
+  }
+
   private isMobileViewport(): boolean {
     return window.innerWidth <= 960;
   }
 
   private startRenderLoop(): void {
     // Cancel any existing animation frame
-    if (this.rafId !== null) {
-      cancelAnimationFrame(this.rafId);
-    }
+    this.stopRenderLoop();
+
+    // Frame times only count while the loop runs continuously
+    this.lastFrameTime = null;
+    this.qualityGovernor.reset();
 
     // Update function that calls itself recursively
-    const update = () => {
+    const update = (time: number) => {
       if (this.isDestroyed) return;
 
       if (this.scene) {
-        this.scene.render();
+        // Intro frames are one-off work, so only measure the interactive grid
+        if (this.lastFrameTime !== null && this.scene.isIntroShown) {
+          this.qualityGovernor.sample(time - this.lastFrameTime);
+        }
+        this.lastFrameTime = time;
+
+        this.scene.render(time);
+
+        // Idle once nothing moves; onInvalidate wakes the loop again
+        if (!this.scene.needsRender()) {
+          this.rafId = null;
+          return;
+        }
       }
       this.rafId = requestAnimationFrame(update);
     };
@@ -273,8 +737,21 @@ export class ArchiveView {
     this.rafId = requestAnimationFrame(update);
   }
 
+  // Restart the loop if it went idle
+  private wakeRenderLoop(): void {
+    if (this.rafId !== null || this.isDestroyed || this.isRenderPaused || !this.scene) return;
+    this.startRenderLoop();
+  }
+
+  private stopRenderLoop(): void {
+    if (this.rafId !== null) {
+      cancelAnimationFrame(this.rafId);
+      this.rafId = null;
+    }
+  }
+
   public show(): void {
-    if (!this.scene) {
+    if (!this.scene && !this.isPlainList) {
       return;
     }
 
@@ -294,11 +771,13 @@ export class ArchiveView {
       // Make background transparent immediately
       gridLoaderOverlay.style.backgroundColor = 'transparent';
 
-      // Fade out with timing that matches intro sequence
+      // Fade out with timing that matches intro sequence, or the shorter fade of a resumed
+      // view and the plain list
+      const isQuick = this.isResuming || this.isPlainList;
       gsap.to(gridLoaderOverlay, {
         opacity: 0,
-        delay: 1.5,
-        duration: 1.2,
+        delay: isQuick ? 0 : 1.5,
+        duration: isQuick ? 0.6 : 1.2,
         ease: 'power2.inOut',
         onComplete: () => {
           if (gridLoaderOverlay.parentNode) {
@@ -308,13 +787,26 @@ export class ArchiveView {
       });
     }
 
-    // Note: The zoom UI is shown by the WebGLGrid intro animation callback
+    // Note: The zoom UI is shown by the WebGLGrid intro animation callback. The plain list
+    // has no intro and nothing to zoom, so only its filter bar appears
+    if (this.isPlainList) {
+      if (this.zoomUI) {
+        this.zoomUI.style.display = 'none';
+      }
+      if (this.filterBar) {
+        gsap.to(this.filterBar, {
+          opacity: 1,
+          duration: 0.75,
+          ease: 'power2.inOut',
+        });
+      }
+    }
   }
 
   // Method to show zoom UI when WebGLGrid calls back
   public showZoomUI(): void {
-    if (this.zoomUI) {
-      gsap.to(this.zoomUI, {
+    if (this.zoomUI || this.filterBar) {
+      gsap.to([this.zoomUI, this.filterBar].filter(Boolean), {
         opacity: 1,
         duration: 0.75,
         ease: 'power2.inOut',
@@ -333,6 +825,12 @@ export class ArchiveView {
     return new Promise<void>((resolve) => {
       // Mark as transitioning
       this.isTransitioning = true;
+      this.saveSession();
+
+      // The tooltip belongs to a tile, so it goes straight away
+      if (this.tooltip) {
+        this.tooltip.hideNow();
+      }
 
       // Create consistent timing with other page transitions
       const duration = 0.8;
@@ -356,9 +854,9 @@ export class ArchiveView {
         resolve();
       }
 
-      // Fade out zoom UI with the same timing
-      if (this.zoomUI) {
-        gsap.to(this.zoomUI, {
+      // Fade out zoom UI and filter bar with the same timing
+      if (this.zoomUI || this.filterBar) {
+        gsap.to([this.zoomUI, this.filterBar].filter(Boolean), {
           opacity: 0,
           duration: duration,
           ease: ease,
@@ -389,10 +887,9 @@ export class ArchiveView {
     this.isDestroyed = true;
 
     // Stop rendering immediately (doesn't affect visuals)
-    if (this.rafId !== null) {
-      cancelAnimationFrame(this.rafId);
-      this.rafId = null;
-    }
+    this.stopRenderLoop();
+    this.events.clear();
+    this.saveSession();
 
     // Clean up resize observer (doesn't affect visuals)
     if (this.resizeObserver) {
@@ -408,6 +905,15 @@ export class ArchiveView {
       this.introTimer = null;
     }
 
+    // Drop any pending URL update so it can't land on the next page
+    if (this.cameraURLTimer) {
+      clearTimeout(this.cameraURLTimer);
+      this.cameraURLTimer = null;
+    }
+    if (this.tooltip) {
+      this.tooltip.hideNow();
+    }
+
     // Schedule resource cleanup for AFTER transitions complete
     setTimeout(() => {
       // Cleanup WebGL resources
@@ -431,8 +937,29 @@ export class ArchiveView {
             this.zoomUI = null;
           }
 
+          if (this.filterBar) {
+            this.filterBar.remove();
+            this.filterBar = null;
+          }
+
+          if (this.tooltip) {
+            this.tooltip.destroy();
+            this.tooltip = null;
+          }
+
+          if (this.lightbox) {
+            this.lightbox.destroy();
+            this.lightbox = null;
+          }
+
+          if (this.mirror) {
+            this.mirror.destroy();
+            this.mirror = null;
+          }
+
           // Explicitly null out the canvas reference
           this.canvas = null;
+          this.liveRegion = null;
 
           // Clear image references to help garbage collection
           this.images = [];
@@ -0,0 +1,1073 @@
+import { gsap } from 'gsap';
+
+import type { CMSImage } from '../../utils/imageDataParser';
+import { createRandom, createSeed, shuffleArray } from '../../utils/random';
+import { ArchiveEvents } from './ArchiveEvents';
+import { type ResolvedGridOptions, resolveGridOptions } from './gridOptions';
+import { detectImageFileFormat, getImageSource, type ImageFileFormat } from './imageSource';
+import { createEventLayout, createGridLayout } from './layout';
+import type {
+  ArchiveRenderer,
+  CameraMoveOptions,
+  CameraState,
+  GridOptions,
+  InitialView,
+  TileHover,
+} from './types';
+
+// Fallback archive renderer built from absolutely positioned DOM tiles, used when
+// the browser can't create a WebGL context. Only tiles inside the viewport exist in the DOM.
+export class DOMGrid implements ArchiveRenderer {
+  private container: HTMLElement;
+  private layer: HTMLElement | null = null;
+  private images: CMSImage[] = [];
+  private uniqueImages: CMSImage[] = [];
+  private layoutImages: CMSImage[] = []; // Seeded layout of every image, restored without a filter
+  private filterEventId: string | null = null;
+  private tiles: Map<string, HTMLImageElement> = new Map();
+
+  // Grid parameters (same options as WebGLGrid, in CSS pixels)
+  private options: ResolvedGridOptions;
+  private COLUMN_ITEM_LENGTH: number;
+  private ROW_ITEM_LENGTH: number;
+  private ITEM_WIDTH: number;
+  private ITEM_HEIGHT: number;
+  private HORIZONTAL_GAP: number;
+  private VERTICAL_GAP: number;
+  private readonly MIN_ZOOM: number;
+  private readonly MAX_ZOOM: number;
+  private readonly CLICK_TRAVEL_THRESHOLD = 6;
+  private readonly KEY_PAN_ACCELERATION = 1.2;
+
+  // State tracking
+  private isDestroyed = false;
+  public isIntroShown = false;
+  private texturesLoaded = false;
+  private delayIntroAnimation: boolean;
+  private isResuming: boolean; // Back within the session: fade in at the saved view, no intro
+  private isMobile: boolean;
+  private fileFormat: ImageFileFormat = 'webp';
+  private windowSize = { width: 0, height: 0 };
+  private camera = { x: 0, y: 0 }; // View center, measured in grid cells
+  private velocity = { x: 0, y: 0 };
+  private currentZoom: number;
+  private isDragging = false;
+  private pointerDown = { x: 0, y: 0 };
+  private lastPointer = { x: 0, y: 0 };
+  private heldKeys: Set<string> = new Set();
+  private hoverPoint: { x: number; y: number } | null = null; // Pointer over the layer (client px)
+  private hoveredTile: HTMLImageElement | null = null;
+  private focusedTile: HTMLImageElement | null = null; // Outlined tile Enter opens
+  private tileOpacity = 0;
+  public grayscale = 1;
+  private appliedGrayscale = -1;
+  private TLIntro: gsap.core.Timeline | null = null;
+  private zoomTween: gsap.core.Tween | null = null;
+  private panTween: gsap.core.Tween | null = null; // Also carries zoom for flyTo
+  private hasPanned = false; // The camera moved since the last frame
+  private isPanning = false; // Waiting for the camera to rest before emitting panend
+  private seed: number;
+  private random: () => number;
+  private initialZoom: number;
+  private initialPan = { x: 0, y: 0 }; // CSS pixels at zoom 1
+
+  public onIntroMostlyDone: (() => void) | null = null;
+  public onTileClick: ((image: CMSImage, index: number) => void) | null = null;
+  public onTileFocus: ((image: CMSImage, index: number) => void) | null = null;
+  public onTileHover: ((hover: TileHover | null) => void) | null = null;
+  public onContextLost: (() => void) | null = null;
+  public onContextRestored: (() => void) | null = null;
+  public onCameraChange: (() => void) | null = null;
+  public onInvalidate: (() => void) | null = null;
+  public readonly events = new ArchiveEvents();
+
+  constructor(
+    container: HTMLElement,
+    originalImages: CMSImage[],
+    isMobile: boolean,
+    delayIntro = false,
+    initialState: InitialView = {},
+    options: Partial<GridOptions> = {}
+  ) {
+    this.container = container;
+    this.isMobile = isMobile;
+    this.delayIntroAnimation = delayIntro;
+    this.isResuming = initialState.resume ?? false;
+
+    // Same options and mobile defaults as the WebGL grid
+    this.options = resolveGridOptions(isMobile, options);
+    this.COLUMN_ITEM_LENGTH = this.options.columnCount;
+    this.ROW_ITEM_LENGTH = this.options.rowCount;
+    this.ITEM_WIDTH = this.options.itemWidth;
+    this.ITEM_HEIGHT = this.options.itemHeight;
+    this.HORIZONTAL_GAP = this.options.horizontalGap;
+    this.VERTICAL_GAP = this.options.verticalGap;
+    this.MIN_ZOOM = this.options.minZoom;
+    this.MAX_ZOOM = this.options.maxZoom;
+    this.currentZoom = this.options.introStartZoom;
+
+    // Restore a shared view, or start a fresh random layout
+    this.seed = initialState.seed ?? this.options.seed ?? createSeed();
+    this.random = createRandom(this.seed);
+    this.initialZoom = this.clampZoom(initialState.zoom ?? this.options.introZoom);
+    this.initialPan = { x: initialState.x ?? 0, y: initialState.y ?? 0 };
+
+    // Shuffle images the same way the WebGL grid does
+    this.uniqueImages = shuffleArray(originalImages, this.random);
+    this.images = createGridLayout(
+      this.uniqueImages,
+      this.COLUMN_ITEM_LENGTH,
+      this.ROW_ITEM_LENGTH,
+      this.random
+    );
+    this.layoutImages = this.images;
+
+    // Start centered on the middle of the grid
+    this.camera.x = this.COLUMN_ITEM_LENGTH / 2;
+    this.camera.y = this.ROW_ITEM_LENGTH / 2;
+
+    this.setupDOM();
+    this.setWindow();
+    this.init();
+  }
+
+  private setupDOM(): void {
+    this.layer = document.createElement('div');
+    this.layer.className = 'archive-dom-grid';
+    this.layer.tabIndex = 0;
+    this.layer.setAttribute('role', 'application');
+    this.layer.setAttribute(
+      'aria-label',
+      'Image archive. Use arrow keys or WASD to pan, plus and minus to zoom, Tab to move between images and Enter to open one.'
+    );
+    this.layer.style.position = 'absolute';
+    this.layer.style.top = '0';
+    this.layer.style.left = '0';
+    this.layer.style.width = '100%';
+    this.layer.style.height = '100%';
+    this.layer.style.overflow = 'hidden';
+    this.layer.style.backgroundColor = this.options.backgroundColor;
+    this.layer.style.outline = 'none';
+    this.layer.style.touchAction = 'none';
+    this.layer.style.userSelect = 'none';
+    this.layer.style.cursor = 'grab';
+    this.container.appendChild(this.layer);
+  }
+
+  // Preload SD images before running the intro, mirroring the WebGL texture loading
+  private async init(): Promise<void> {
+    this.fileFormat = await detectImageFileFormat();
+    if (this.isDestroyed) return;
+
+    const sources = this.getImageSources();
+    let loadedCount = 0;
+
+    const onLoaded = () => {
+      loadedCount += 1;
+      if (loadedCount === sources.length) {
+        this.texturesLoaded = true;
+
+        // Update cursor and hide loading
+        document.body.style.cursor = 'default';
+        const loading = document.querySelector('.loading');
+        if (loading) loading.classList.add('loaded');
+
+        if (!this.delayIntroAnimation) {
+          this.introSequence();
+        }
+      }
+    };
+
+    if (sources.length === 0) {
+      this.texturesLoaded = true;
+      return;
+    }
+
+    sources.forEach((source) => {
+      const img = new Image();
+      img.addEventListener('load', onLoaded);
+      img.addEventListener('error', onLoaded);
+      img.decoding = 'async';
+      img.src = source;
+    });
+  }
+
+  public startIntroSequence(): void {
+    if (this.isIntroShown || !this.texturesLoaded) return;
+    this.introSequence();
+  }
+
+  private introSequence(): void {
+    if (this.isIntroShown || this.TLIntro) return;
+
+    if (this.isResuming) {
+      this.resumeSequence();
+      return;
+    }
+
+    this.TLIntro = gsap.timeline({
+      onComplete: () => this.completeIntro(),
+    });
+
+    this.TLIntro.to(this, { tileOpacity: 1, duration: 0.6, ease: 'power2.out' }, 0);
+    this.TLIntro.to(
+      this,
+      {
+        HORIZONTAL_GAP: this.options.introHorizontalGap,
+        VERTICAL_GAP: this.options.introVerticalGap,
+        currentZoom: this.initialZoom,
+        grayscale: 0,
+        duration: this.options.introDuration,
+        ease: 'power3.out',
+      },
+      0
+    );
+
+    this.TLIntro.call(
+      () => {
+        if (this.onIntroMostlyDone) {
+          this.onIntroMostlyDone();
+        }
+      },
+      [],
+      0.0
+    );
+  }
+
+  // Back within the session: start at the saved spacing, zoom and pan, and only fade in
+  private resumeSequence(): void {
+    this.HORIZONTAL_GAP = this.options.introHorizontalGap;
+    this.VERTICAL_GAP = this.options.introVerticalGap;
+    this.currentZoom = this.initialZoom;
+    this.camera = this.getInitialCamera();
+
+    this.TLIntro = gsap.timeline({
+      onComplete: () => this.completeIntro(),
+    });
+    this.TLIntro.to(this, { tileOpacity: 1, grayscale: 0, duration: 0.6, ease: 'power2.out' }, 0);
+    this.TLIntro.call(
+      () => {
+        if (this.onIntroMostlyDone) {
+          this.onIntroMostlyDone();
+        }
+      },
+      [],
+      0.0
+    );
+  }
+
+  private completeIntro(): void {
+    this.isIntroShown = true;
+    this.bindEvents();
+
+    // Glide to a restored view now the grid spacing is final; a resumed view is already there
+    if (!this.isResuming && (this.initialPan.x !== 0 || this.initialPan.y !== 0)) {
+      this.animateCamera({ ...this.getInitialCamera(), zoom: this.currentZoom });
+    } else {
+      this.notifyCameraChange();
+    }
+    this.events.emit('introcomplete', this.getCameraState());
+  }
+
+  // Camera (grid cells) for the restored pan
+  private getInitialCamera(): { x: number; y: number } {
+    return {
+      x: this.COLUMN_ITEM_LENGTH / 2 - this.initialPan.x / (this.ITEM_WIDTH + this.HORIZONTAL_GAP),
+      y: this.ROW_ITEM_LENGTH / 2 - this.initialPan.y / (this.ITEM_HEIGHT + this.VERTICAL_GAP),
+    };
+  }
+
+  private bindEvents(): void {
+    if (!this.layer) return;
+    this.layer.addEventListener('pointerdown', this.handlePointerDown);
+    this.layer.addEventListener('wheel', this.handleWheel, { passive: false });
+    this.layer.addEventListener('keydown', this.handleKeyDown);
+    this.layer.addEventListener('keyup', this.handleKeyUp);
+    this.layer.addEventListener('focus', this.handleFocus);
+    this.layer.addEventListener('blur', this.handleBlur);
+    this.layer.addEventListener('pointermove', this.handleHoverMove);
+    this.layer.addEventListener('pointerleave', this.handleHoverLeave);
+
+    // Focus may already be on the layer when the intro finishes
+    if (document.activeElement === this.layer) {
+      this.handleFocus();
+    }
+  }
+
+  private unbindEvents(): void {
+    if (this.layer) {
+      this.layer.removeEventListener('pointerdown', this.handlePointerDown);
+      this.layer.removeEventListener('wheel', this.handleWheel);
+      this.layer.removeEventListener('keydown', this.handleKeyDown);
+      this.layer.removeEventListener('keyup', this.handleKeyUp);
+      this.layer.removeEventListener('focus', this.handleFocus);
+      this.layer.removeEventListener('blur', this.handleBlur);
+      this.layer.removeEventListener('pointermove', this.handleHoverMove);
+      this.layer.removeEventListener('pointerleave', this.handleHoverLeave);
+    }
+    document.removeEventListener('pointermove', this.handlePointerMove);
+    document.removeEventListener('pointerup', this.handlePointerUp);
+    document.removeEventListener('pointercancel', this.handlePointerUp);
+  }
+
+  private handlePointerDown = (e: PointerEvent) => {
+    e.preventDefault();
+    this.invalidate();
+    this.isDragging = true;
+    this.stopPanTween();
+    this.velocity.x = 0;
+    this.velocity.y = 0;
+    this.pointerDown.x = e.clientX;
+    this.pointerDown.y = e.clientY;
+    this.lastPointer.x = e.clientX;
+    this.lastPointer.y = e.clientY;
+
+    if (this.layer) {
+      this.layer.style.cursor = 'grabbing';
+      this.layer.focus({ preventScroll: true });
+    }
+
+    document.addEventListener('pointermove', this.handlePointerMove);
+    document.addEventListener('pointerup', this.handlePointerUp);
+    document.addEventListener('pointercancel', this.handlePointerUp);
+  };
+
+  private handlePointerMove = (e: PointerEvent) => {
+    if (!this.isDragging) return;
+    this.invalidate();
+
+    const deltaX = e.clientX - this.lastPointer.x;
+    const deltaY = e.clientY - this.lastPointer.y;
+    this.lastPointer.x = e.clientX;
+    this.lastPointer.y = e.clientY;
+
+    this.translate(deltaX, deltaY);
+    this.velocity.x = deltaX;
+    this.velocity.y = deltaY;
+  };
+
+  private handlePointerUp = (e: PointerEvent) => {
+    this.isDragging = false;
+    if (this.layer) {
+      this.layer.style.cursor = 'grab';
+    }
+
+    document.removeEventListener('pointermove', this.handlePointerMove);
+    document.removeEventListener('pointerup', this.handlePointerUp);
+    document.removeEventListener('pointercancel', this.handlePointerUp);
+
+    // Short travel is a click on the tile under the pointer
+    const travel = Math.hypot(e.clientX - this.pointerDown.x, e.clientY - this.pointerDown.y);
+    if (travel < this.CLICK_TRAVEL_THRESHOLD) {
+      this.velocity.x = 0;
+      this.velocity.y = 0;
+      this.handleTileClick(e.clientX, e.clientY);
+    }
+  };
+
+  // Tiles don't take pointer events so drags start on the layer; find the tile by its bounds
+  private handleTileClick(clientX: number, clientY: number): void {
+    const tile = this.getTileAt(clientX, clientY);
+    if (tile) {
+      this.activateTile(tile);
+    }
+  }
+
+  private activateTile(tile: HTMLImageElement): void {
+    const index = Number(tile.dataset.imageIndex);
+    if (index < 0) return;
+
+    const image = this.uniqueImages[index];
+    if (this.onTileClick) {
+      this.onTileClick(image, index);
+    }
+    this.events.emit('tileclick', { image, index });
+  }
+
+  private handleHoverMove = (e: PointerEvent) => {
+    if (e.pointerType !== 'mouse') return;
+    this.hoverPoint = { x: e.clientX, y: e.clientY };
+    this.updateHover();
+  };
+
+  private handleHoverLeave = () => {
+    this.hoverPoint = null;
+    this.updateHover();
+  };
+
+  // Tile drawn under a point in client pixels
+  private getTileAt(x: number, y: number): HTMLImageElement | null {
+    for (const tile of this.tiles.values()) {
+      const rect = tile.getBoundingClientRect();
+      if (x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom) {
+        return tile;
+      }
+    }
+    return null;
+  }
+
+  // Report the tile under the pointer and its screen bounds, or null while dragging
+  private updateHover(): void {
+    const hovered =
+      this.hoverPoint && this.isIntroShown && !this.isDragging
+        ? this.getTileAt(this.hoverPoint.x, this.hoverPoint.y)
+        : null;
+    if (!hovered && !this.hoveredTile) return;
+
+    this.hoveredTile = hovered;
+
+    let hover: TileHover | null = null;
+    const index = hovered ? Number(hovered.dataset.imageIndex) : -1;
+    if (hovered && index >= 0) {
+      const { left, top, right, bottom } = hovered.getBoundingClientRect();
+      hover = {
+        image: this.uniqueImages[index],
+        index,
+        bounds: { left, top, right, bottom },
+      };
+    }
+
+    if (this.onTileHover) {
+      this.onTileHover(hover);
+    }
+    this.events.emit('tilehover', hover);
+  }
+
+  // Ctrl+wheel (and trackpad pinch) zooms around the cursor
+  private handleWheel = (e: WheelEvent) => {
+    if (!e.ctrlKey || !this.layer) return;
+    e.preventDefault();
+    this.invalidate();
+
+    const deltaY = e.deltaMode === 1 ? e.deltaY * 16 : e.deltaY;
+    const rect = this.layer.getBoundingClientRect();
+
+    this.stopZoomTween();
+    this.applyZoom(this.clampZoom(this.currentZoom * Math.exp(-deltaY * 0.01)), {
+      x: e.clientX - rect.left,
+      y: e.clientY - rect.top,
+    });
+  };
+
+  private getKeyDirection(key: string) {
+    switch (key) {
+      case 'arrowleft':
+      case 'a':
+        return { x: 1, y: 0 };
+      case 'arrowright':
+      case 'd':
+        return { x: -1, y: 0 };
+      case 'arrowup':
+      case 'w':
+        return { x: 0, y: 1 };
+      case 'arrowdown':
+      case 's':
+        return { x: 0, y: -1 };
+      default:
+        return null;
+    }
+  }
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    if (e.metaKey || e.ctrlKey || e.altKey) return;
+    const key = e.key.toLowerCase();
+    this.invalidate();
+
+    if (this.getKeyDirection(key)) {
+      e.preventDefault();
+      this.stopPanTween();
+      this.heldKeys.add(key);
+    } else if (key === '+' || key === '=') {
+      e.preventDefault();
+      this.zoom('zoom-in');
+    } else if (key === '-' || key === '_') {
+      e.preventDefault();
+      this.zoom('zoom-out');
+    } else if (key === 'tab') {
+      // Let focus leave the layer once the last visible tile is passed
+      if (this.moveFocus(e.shiftKey ? -1 : 1)) {
+        e.preventDefault();
+      }
+    } else if ((key === 'enter' || key === ' ') && this.focusedTile) {
+      e.preventDefault();
+      this.activateTile(this.focusedTile);
+    }
+  };
+
+  private handleKeyUp = (e: KeyboardEvent) => {
+    this.heldKeys.delete(e.key.toLowerCase());
+  };
+
+  private handleFocus = () => {
+    if (!this.isIntroShown) return;
+    this.setFocusedTile(this.getTileNearestCenter());
+  };
+
+  private handleBlur = () => {
+    this.heldKeys.clear();
+    this.setFocusedTile(null);
+  };
+
+  // Tiles at least partly inside the viewport, in reading order (top-to-bottom, left-to-right)
+  private getVisibleTilesInOrder(): HTMLImageElement[] {
+    return Array.from(this.tiles.values())
+      .map((tile) => ({ tile, rect: tile.getBoundingClientRect() }))
+      .filter(({ tile }) => this.isTileOnScreen(tile))
+      .sort((a, b) => a.rect.top - b.rect.top || a.rect.left - b.rect.left)
+      .map(({ tile }) => tile);
+  }
+
+  private isTileOnScreen(tile: HTMLImageElement): boolean {
+    if (!this.layer || !tile.isConnected) return false;
+
+    const rect = tile.getBoundingClientRect();
+    const view = this.layer.getBoundingClientRect();
+    return (
+      rect.right > view.left &&
+      rect.left < view.right &&
+      rect.bottom > view.top &&
+      rect.top < view.bottom
+    );
+  }
+
+  // Find the visible tile closest to the view center
+  private getTileNearestCenter(): HTMLImageElement | null {
+    if (!this.layer) return null;
+
+    const view = this.layer.getBoundingClientRect();
+    const centerX = view.left + view.width / 2;
+    const centerY = view.top + view.height / 2;
+    let nearest: HTMLImageElement | null = null;
+    let nearestDistance = Infinity;
+
+    for (const tile of this.getVisibleTilesInOrder()) {
+      const rect = tile.getBoundingClientRect();
+      const distance = Math.hypot(
+        rect.left + rect.width / 2 - centerX,
+        rect.top + rect.height / 2 - centerY
+      );
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = tile;
+      }
+    }
+
+    return nearest;
+  }
+
+  // Move keyboard focus through visible tiles, returns false when focus should leave
+  private moveFocus(step: number): boolean {
+    const visibleTiles = this.getVisibleTilesInOrder();
+    const currentIndex = this.focusedTile ? visibleTiles.indexOf(this.focusedTile) : -1;
+    const nextIndex = currentIndex === -1 ? 0 : currentIndex + step;
+
+    if (nextIndex < 0 || nextIndex >= visibleTiles.length) {
+      this.setFocusedTile(null);
+      return false;
+    }
+
+    this.setFocusedTile(visibleTiles[nextIndex]);
+    return true;
+  }
+
+  // Outline the tile like the WebGL grid's focus border and announce its image
+  private setFocusedTile(tile: HTMLImageElement | null): void {
+    if (this.focusedTile === tile) return;
+
+    if (this.focusedTile) {
+      this.focusedTile.style.outline = '';
+    }
+    this.focusedTile = tile;
+
+    if (tile) {
+      tile.style.outline = '2px solid #F3F2F0';
+      tile.style.outlineOffset = '-2px';
+
+      const index = Number(tile.dataset.imageIndex);
+      if (this.onTileFocus && index >= 0) {
+        this.onTileFocus(this.uniqueImages[index], index);
+      }
+    }
+  }
+
+  // Size of one grid cell on screen at the current zoom
+  private getCellSize() {
+    return {
+      width: (this.ITEM_WIDTH + this.HORIZONTAL_GAP) * this.currentZoom,
+      height: (this.ITEM_HEIGHT + this.VERTICAL_GAP) * this.currentZoom,
+    };
+  }
+
+  // Move the content by a screen-space delta
+  private translate(deltaX: number, deltaY: number): void {
+    if (deltaX === 0 && deltaY === 0) return;
+
+    const cell = this.getCellSize();
+    this.camera.x -= deltaX / cell.width;
+    this.camera.y -= deltaY / cell.height;
+    if (this.isIntroShown) this.hasPanned = true;
+    this.notifyCameraChange();
+  }
+
+  private notifyCameraChange(): void {
+    if (this.isIntroShown && this.onCameraChange) {
+      this.onCameraChange();
+    }
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  // Current view as pan (CSS pixels at zoom 1, wrapped to one grid repeat), zoom and seed
+  public getCameraState(): CameraState {
+    const wrap = (value: number, length: number) =>
+      ((((value + length / 2) % length) + length) % length) - length / 2;
+    const cellWidth = this.ITEM_WIDTH + this.HORIZONTAL_GAP;
+    const cellHeight = this.ITEM_HEIGHT + this.VERTICAL_GAP;
+
+    return {
+      x: -wrap(this.camera.x - this.COLUMN_ITEM_LENGTH / 2, this.COLUMN_ITEM_LENGTH) * cellWidth,
+      y: -wrap(this.camera.y - this.ROW_ITEM_LENGTH / 2, this.ROW_ITEM_LENGTH) * cellHeight,
+      zoom: this.currentZoom,
+      seed: this.seed,
+    };
+  }
+
+  // Glide and zoom until a tile showing the image sits in the middle of the view, like the
+  // WebGL grid. Returns false when no tile shows the image.
+  public flyTo(target: number | string, options: CameraMoveOptions = {}): boolean {
+    if (!this.isIntroShown) return false;
+
+    const index = typeof target === 'number' ? target : this.findImageIndex(target);
+    const image = this.uniqueImages[index];
+    if (!image) return false;
+
+    // Cells repeat every grid length, so pick the copy nearest to the camera
+    const nearestCopy = (cell: number, camera: number, length: number) =>
+      cell + Math.round((camera - cell) / length) * length;
+    const { width, height } = image.file.details.image;
+    const centerX = this.ITEM_WIDTH / 2 / (this.ITEM_WIDTH + this.HORIZONTAL_GAP);
+    const centerY = (this.ITEM_WIDTH * height) / width / 2 / (this.ITEM_HEIGHT + this.VERTICAL_GAP);
+
+    let nearest: { x: number; y: number } | null = null;
+    let nearestDistance = Infinity;
+    for (let cellIndex = 0; cellIndex < this.images.length; cellIndex += 1) {
+      if (this.images[cellIndex] !== image) continue;
+
+      const x = nearestCopy(
+        (cellIndex % this.COLUMN_ITEM_LENGTH) + centerX,
+        this.camera.x,
+        this.COLUMN_ITEM_LENGTH
+      );
+      const y = nearestCopy(
+        Math.floor(cellIndex / this.COLUMN_ITEM_LENGTH) + centerY,
+        this.camera.y,
+        this.ROW_ITEM_LENGTH
+      );
+      const distance = Math.hypot(x - this.camera.x, y - this.camera.y);
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = { x, y };
+      }
+    }
+    if (!nearest) return false;
+
+    this.animateCamera(
+      { ...nearest, zoom: this.clampZoom(options.zoom ?? this.currentZoom) },
+      options.duration
+    );
+    return true;
+  }
+
+  // Move the content like a drag of dx, dy CSS pixels
+  public panBy(dx: number, dy: number, options: CameraMoveOptions = {}): void {
+    if (!this.isIntroShown) return;
+
+    const cell = this.getCellSize();
+    this.animateCamera(
+      {
+        x: this.camera.x - dx / cell.width,
+        y: this.camera.y - dy / cell.height,
+        zoom: this.currentZoom,
+      },
+      options.duration
+    );
+  }
+
+  // Zoom to a level, keeping the focal point (client CSS pixels) in place; defaults to the center
+  public setZoom(
+    zoom: number,
+    focal?: { x: number; y: number },
+    options: CameraMoveOptions = {}
+  ): void {
+    if (!this.isIntroShown) return;
+
+    const targetZoom = this.clampZoom(zoom);
+    const rect = this.container.getBoundingClientRect();
+    const focalPoint = focal ? { x: focal.x - rect.left, y: focal.y - rect.top } : undefined;
+    const duration = options.duration ?? 0.6;
+
+    this.stopZoomTween();
+    this.invalidate();
+    if (duration <= 0) {
+      this.applyZoom(targetZoom, focalPoint);
+      return;
+    }
+
+    const t = { zoom: this.currentZoom };
+    this.zoomTween = gsap.to(t, {
+      zoom: targetZoom,
+      duration,
+      ease: 'power2.inOut',
+      onUpdate: () => {
+        this.applyZoom(t.zoom, focalPoint);
+      },
+      onComplete: () => {
+        this.zoomTween = null;
+      },
+    });
+  }
+
+  // Index of the image with this URL, in its original, SD or HD form
+  private findImageIndex(url: string): number {
+    return this.uniqueImages.findIndex(
+      (image) =>
+        image.file.url === url ||
+        this.getImageSource(image, false) === url ||
+        this.getImageSource(image, true) === url
+    );
+  }
+
+  // Animate the camera (grid cells) and zoom together
+  private animateCamera(target: { x: number; y: number; zoom: number }, duration = 0.8): void {
+    this.stopPanTween();
+    this.stopZoomTween();
+    this.invalidate();
+    this.velocity.x = 0;
+    this.velocity.y = 0;
+
+    const t = { ...this.camera, zoom: this.currentZoom };
+    const apply = () => {
+      if (t.zoom !== this.currentZoom) {
+        this.applyZoom(t.zoom);
+      }
+      if (t.x !== this.camera.x || t.y !== this.camera.y) {
+        this.camera.x = t.x;
+        this.camera.y = t.y;
+        this.hasPanned = true;
+        this.notifyCameraChange();
+      }
+    };
+
+    if (duration <= 0) {
+      Object.assign(t, target);
+      apply();
+      return;
+    }
+
+    this.panTween = gsap.to(t, {
+      ...target,
+      duration,
+      ease: 'power3.inOut',
+      onUpdate: apply,
+      onComplete: () => {
+        this.panTween = null;
+      },
+    });
+  }
+
+  // Emit panend once the camera has rested for a frame; a held drag isn't resting
+  private checkPanEnd(): void {
+    if (this.hasPanned) {
+      this.hasPanned = false;
+      this.isPanning = true;
+      return;
+    }
+
+    if (this.isPanning && !this.isDragging) {
+      this.isPanning = false;
+      this.events.emit('panend', this.getCameraState());
+    }
+  }
+
+  public zoom(action: string): void {
+    this.setZoom(
+      action === 'zoom-in'
+        ? Math.round(this.currentZoom * 2 * 1000) / 1000
+        : Math.round(this.currentZoom * 0.5 * 1000) / 1000
+    );
+  }
+
+  private clampZoom(zoom: number): number {
+    return Math.min(this.MAX_ZOOM, Math.max(this.MIN_ZOOM, zoom));
+  }
+
+  private stopPanTween(): void {
+    if (this.panTween) {
+      this.panTween.kill();
+      this.panTween = null;
+    }
+  }
+
+  private stopZoomTween(): void {
+    if (this.zoomTween) {
+      this.zoomTween.kill();
+      this.zoomTween = null;
+    }
+  }
+
+  // Zoom while keeping the focal point (container pixels) fixed; defaults to the view center
+  private applyZoom(newZoom: number, focal?: { x: number; y: number }): void {
+    const before = this.getCellSize();
+    const hasChanged = newZoom !== this.currentZoom;
+    this.currentZoom = newZoom;
+
+    if (focal) {
+      const after = this.getCellSize();
+      const offsetX = focal.x - this.windowSize.width / 2;
+      const offsetY = focal.y - this.windowSize.height / 2;
+      this.camera.x += offsetX / before.width - offsetX / after.width;
+      this.camera.y += offsetY / before.height - offsetY / after.height;
+    }
+
+    this.notifyCameraChange();
+    if (this.isIntroShown && hasChanged) {
+      this.events.emit('zoomchange', { zoom: this.currentZoom });
+    }
+  }
+
+  public setWindow(): void {
+    this.windowSize = {
+      width: this.container.clientWidth || window.innerWidth,
+      height: this.container.clientHeight || window.innerHeight,
+    };
+    this.render();
+  }
+
+  private update(): void {
+    if (this.isDragging) return;
+
+    // Held keys accelerate the view, then share the drag momentum
+    this.heldKeys.forEach((key) => {
+      const direction = this.getKeyDirection(key);
+      if (!direction) return;
+      this.velocity.x += direction.x * this.KEY_PAN_ACCELERATION;
+      this.velocity.y += direction.y * this.KEY_PAN_ACCELERATION;
+    });
+
+    this.velocity.x *= this.options.friction;
+    this.velocity.y *= this.options.friction;
+    if (Math.abs(this.velocity.x) < 0.01) this.velocity.x = 0;
+    if (Math.abs(this.velocity.y) < 0.01) this.velocity.y = 0;
+
+    this.translate(this.velocity.x, this.velocity.y);
+  }
+
+  // Create, position and recycle the DOM tiles covering the viewport
+  private draw(): void {
+    if (!this.layer) return;
+
+    if (this.appliedGrayscale !== this.grayscale) {
+      this.appliedGrayscale = this.grayscale;
+      this.layer.style.filter = this.grayscale > 0 ? `grayscale(${this.grayscale})` : '';
+    }
+
+    const cell = this.getCellSize();
+    const itemWidth = this.ITEM_WIDTH * this.currentZoom;
+    const halfWidth = this.windowSize.width / 2;
+    const halfHeight = this.windowSize.height / 2;
+
+    const firstColumn = Math.floor(this.camera.x - halfWidth / cell.width) - 1;
+    const lastColumn = Math.ceil(this.camera.x + halfWidth / cell.width);
+    const firstRow = Math.floor(this.camera.y - halfHeight / cell.height) - 1;
+    const lastRow = Math.ceil(this.camera.y + halfHeight / cell.height);
+
+    const visibleKeys = new Set<string>();
+
+    for (let row = firstRow; row <= lastRow; row += 1) {
+      for (let column = firstColumn; column <= lastColumn; column += 1) {
+        // Wrap cells around the grid to keep panning infinite
+        const wrappedColumn =
+          ((column % this.COLUMN_ITEM_LENGTH) + this.COLUMN_ITEM_LENGTH) % this.COLUMN_ITEM_LENGTH;
+        const wrappedRow =
+          ((row % this.ROW_ITEM_LENGTH) + this.ROW_ITEM_LENGTH) % this.ROW_ITEM_LENGTH;
+        const image =
+          this.images[(wrappedRow * this.COLUMN_ITEM_LENGTH + wrappedColumn) % this.images.length];
+        if (!image) continue;
+
+        const key = `${column},${row}`;
+        visibleKeys.add(key);
+
+        let tile = this.tiles.get(key);
+        if (!tile) {
+          tile = this.createTile(image);
+          this.tiles.set(key, tile);
+          this.layer.appendChild(tile);
+        }
+
+        const { width, height } = image.file.details.image;
+        const x = halfWidth + (column - this.camera.x) * cell.width;
+        const y = halfHeight + (row - this.camera.y) * cell.height;
+        tile.style.width = `${itemWidth}px`;
+        tile.style.height = `${Math.round((itemWidth * height) / width)}px`;
+        tile.style.transform = `translate3d(${x}px, ${y}px, 0)`;
+        tile.style.opacity = `${this.tileOpacity}`;
+      }
+    }
+
+    // Drop tiles that left the viewport
+    this.tiles.forEach((tile, key) => {
+      if (!visibleKeys.has(key)) {
+        tile.remove();
+        this.tiles.delete(key);
+      }
+    });
+
+    // Keep keyboard focus on screen as the view pans
+    if (this.focusedTile && !this.isTileOnScreen(this.focusedTile)) {
+      this.setFocusedTile(this.getTileNearestCenter());
+    }
+
+    // The tile under a resting pointer changes as the view pans and zooms
+    this.updateHover();
+  }
+
+  private createTile(image: CMSImage): HTMLImageElement {
+    const tile = document.createElement('img');
+    tile.className = 'archive-dom-grid__tile';
+    tile.alt = image.alt || '';
+    tile.draggable = false;
+    tile.decoding = 'async';
+    tile.dataset.imageIndex = `${this.uniqueImages.indexOf(image)}`;
+    tile.style.position = 'absolute';
+    tile.style.top = '0';
+    tile.style.left = '0';
+    tile.style.objectFit = 'cover';
+    tile.style.backgroundColor = image.file.color;
+    tile.style.pointerEvents = 'none';
+    tile.src = this.getImageSource(image);
+    return tile;
+  }
+
+  private getImageSource(image: CMSImage, isHD = false): string {
+    return getImageSource(
+      image,
+      {
+        fileFormat: this.fileFormat,
+        pixelRatio: this.options.pixelRatio,
+        provider: this.options.imageProvider,
+        sizing: this.options.imageSizing,
+        sizes: this.options.imageSizes,
+        quality: this.options.imageQuality,
+      },
+      isHD
+    );
+  }
+
+  public getImageSources(isHD = false): string[] {
+    return this.uniqueImages.map((image) => this.getImageSource(image, isHD));
+  }
+
+  // Image of the cell under the view center; the camera points at the center in cells
+  public getCenteredImage(): CMSImage | null {
+    const wrap = (value: number, length: number) => ((value % length) + length) % length;
+    const column = wrap(Math.floor(this.camera.x), this.COLUMN_ITEM_LENGTH);
+    const row = wrap(Math.floor(this.camera.y), this.ROW_ITEM_LENGTH);
+    return this.images[(row * this.COLUMN_ITEM_LENGTH + column) % this.images.length] || null;
+  }
+
+  // Only show tiles of one event, or every image for null, crossfading the whole grid
+  public setFilter(eventId: string | null): void {
+    if (eventId === this.filterEventId) return;
+    this.filterEventId = eventId;
+
+    const hasImages = eventId && this.uniqueImages.some((image) => image.eventId === eventId);
+    const layout = hasImages
+      ? createEventLayout(
+          this.uniqueImages,
+          this.images,
+          eventId,
+          this.COLUMN_ITEM_LENGTH,
+          this.ROW_ITEM_LENGTH,
+          createRandom(this.seed)
+        )
+      : this.layoutImages;
+
+    // Before the intro has finished the tiles simply start from the new layout
+    if (!this.isIntroShown) {
+      this.images = layout;
+      this.clearTiles();
+      return;
+    }
+
+    this.invalidate();
+    gsap.killTweensOf(this, 'tileOpacity');
+    gsap.to(this, {
+      tileOpacity: 0,
+      duration: 0.3,
+      ease: 'power2.in',
+      onComplete: () => {
+        this.images = layout;
+        this.clearTiles();
+        gsap.to(this, { tileOpacity: 1, duration: 0.5, ease: 'power2.out' });
+      },
+    });
+  }
+
+  // Remove every tile so draw() recreates them from the current layout
+  private clearTiles(): void {
+    this.tiles.forEach((tile) => tile.remove());
+    this.tiles.clear();
+  }
+
+  // True while the camera still moves or the intro still plays, so the view keeps requesting frames
+  public needsRender(): boolean {
+    if (this.isDestroyed) return false;
+    if (!this.isIntroShown || this.isDragging || this.heldKeys.size > 0) return true;
+    if (this.velocity.x !== 0 || this.velocity.y !== 0) return true;
+    if (this.hasPanned || this.isPanning) return true;
+
+    return Boolean(this.zoomTween || this.panTween || gsap.isTweening(this));
+  }
+
+  private invalidate(): void {
+    if (this.onInvalidate) {
+      this.onInvalidate();
+    }
+  }
+
+  public render(): boolean {
+    if (this.isDestroyed) return false;
+
+    this.update();
+    this.draw();
+    this.checkPanEnd();
+    return true;
+  }
+
+  public destroy(): void {
+    if (this.isDestroyed) return;
+    this.isDestroyed = true;
+
+    this.unbindEvents();
+    this.events.clear();
+    this.stopZoomTween();
+    this.stopPanTween();
+    if (this.TLIntro) {
+      this.TLIntro.kill();
+      this.TLIntro = null;
+    }
+
+    // Remove tiles after page transitions complete, like the WebGL grid
+    setTimeout(() => {
+      this.tiles.clear();
+      if (this.layer) {
+        this.layer.remove();
+        this.layer = null;
+      }
+      this.images = [];
+      this.uniqueImages = [];
+    }, 800);
+  }
+}
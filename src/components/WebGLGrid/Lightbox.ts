@@ -0,0 +1,195 @@
+import { gsap } from 'gsap';
+
+export class Lightbox {
+  private container: HTMLElement;
+  private overlay: HTMLElement | null = null;
+  private imageElement: HTMLImageElement | null = null;
+  private sources: string[] = [];
+  private currentIndex = 0;
+  private previousFocus: HTMLElement | null = null;
+  public isOpen = false;
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+    this.setupDOM();
+  }
+
+  private setupDOM(): void {
+    // Fullscreen overlay that sits above the grid and the zoom UI
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'archive-lightbox';
+    this.overlay.setAttribute('role', 'dialog');
+    this.overlay.setAttribute('aria-modal', 'true');
+    this.overlay.tabIndex = -1;
+    this.overlay.style.position = 'fixed';
+    this.overlay.style.top = '0';
+    this.overlay.style.left = '0';
+    this.overlay.style.width = '100vw';
+    this.overlay.style.height = '100vh';
+    this.overlay.style.zIndex = '1000';
+    this.overlay.style.display = 'none';
+    this.overlay.style.alignItems = 'center';
+    this.overlay.style.justifyContent = 'center';
+    this.overlay.style.backgroundColor = 'rgba(15, 15, 15, 0.95)';
+    this.overlay.style.cursor = 'zoom-out';
+    this.overlay.style.opacity = '0';
+
+    // Image element showing the HD source
+    this.imageElement = document.createElement('img');
+    this.imageElement.className = 'archive-lightbox__image';
+    this.imageElement.alt = '';
+    this.imageElement.style.maxWidth = '90vw';
+    this.imageElement.style.maxHeight = '90vh';
+    this.imageElement.style.objectFit = 'contain';
+    this.imageElement.style.opacity = '0';
+    this.imageElement.addEventListener('load', () => {
+      gsap.to(this.imageElement, {
+        opacity: 1,
+        duration: 0.3,
+        ease: 'power2.out',
+      });
+    });
+
+    const prevBtn = this.createNavButton('prev', 'M11 1L3 9L11 17');
+    prevBtn.style.left = '2rem';
+    const nextBtn = this.createNavButton('next', 'M3 1L11 9L3 17');
+    nextBtn.style.right = '2rem';
+
+    this.overlay.appendChild(this.imageElement);
+    this.overlay.appendChild(prevBtn);
+    this.overlay.appendChild(nextBtn);
+
+    // Any click outside the navigation buttons closes the lightbox
+    this.overlay.addEventListener('click', this.close);
+
+    this.container.appendChild(this.overlay);
+  }
+
+  private createNavButton(action: 'prev' | 'next', path: string): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'archive-lightbox__button';
+    button.setAttribute('data-action', action);
+    button.setAttribute('aria-label', action === 'prev' ? 'Previous image' : 'Next image');
+    button.style.position = 'absolute';
+    button.style.top = '50%';
+    button.style.transform = 'translateY(-50%)';
+    button.style.width = '40px';
+    button.style.height = '40px';
+    button.style.padding = '10px';
+    button.style.backgroundColor = '#424242';
+    button.style.border = 'none';
+    button.style.cursor = 'pointer';
+    button.style.display = 'flex';
+    button.style.alignItems = 'center';
+    button.style.justifyContent = 'center';
+    button.innerHTML = `
+      <svg xmlns="http://www.w3.org/2000/svg" width="14" height="18" viewBox="0 0 14 18" fill="none">
+  <path d="${path}" stroke="#F3F2F0" stroke-width="1.62" stroke-linecap="square"/>
+</svg>
+    `;
+
+    button.addEventListener('click', (e) => {
+      // Keep navigation clicks from closing the lightbox
+      e.stopPropagation();
+      if (action === 'prev') {
+        this.prev();
+      } else {
+        this.next();
+      }
+    });
+
+    return button;
+  }
+
+  public open(sources: string[], index: number): void {
+    if (!this.overlay || sources.length === 0) return;
+
+    this.sources = sources;
+    this.isOpen = true;
+    this.showImage(index);
+
+    this.overlay.style.display = 'flex';
+    gsap.to(this.overlay, {
+      opacity: 1,
+      duration: 0.3,
+      ease: 'power2.out',
+    });
+
+    document.addEventListener('keydown', this.handleKeyDown);
+
+    // Move focus into the dialog so keys don't reach the grid underneath
+    this.previousFocus = document.activeElement as HTMLElement | null;
+    this.overlay.focus();
+  }
+
+  public close = (): void => {
+    if (!this.isOpen || !this.overlay) return;
+    this.isOpen = false;
+
+    document.removeEventListener('keydown', this.handleKeyDown);
+
+    if (this.previousFocus) {
+      this.previousFocus.focus();
+      this.previousFocus = null;
+    }
+
+    gsap.to(this.overlay, {
+      opacity: 0,
+      duration: 0.3,
+      ease: 'power2.inOut',
+      onComplete: () => {
+        if (this.overlay && !this.isOpen) {
+          this.overlay.style.display = 'none';
+        }
+      },
+    });
+  };
+
+  public next(): void {
+    this.showImage(this.currentIndex + 1);
+  }
+
+  public prev(): void {
+    this.showImage(this.currentIndex - 1);
+  }
+
+  private showImage(index: number): void {
+    if (!this.imageElement || this.sources.length === 0) return;
+
+    // Wrap around at both ends of the image list
+    const count = this.sources.length;
+    this.currentIndex = ((index % count) + count) % count;
+
+    gsap.killTweensOf(this.imageElement);
+    this.imageElement.style.opacity = '0';
+    this.imageElement.src = this.sources[this.currentIndex];
+  }
+
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    if (e.key === 'Escape') {
+      this.close();
+    } else if (e.key === 'ArrowRight') {
+      this.next();
+    } else if (e.key === 'ArrowLeft') {
+      this.prev();
+    }
+  };
+
+  public destroy(): void {
+    document.removeEventListener('keydown', this.handleKeyDown);
+
+    if (this.overlay) {
+      gsap.killTweensOf(this.overlay);
+      this.overlay.remove();
+      this.overlay = null;
+    }
+
+    if (this.imageElement) {
+      gsap.killTweensOf(this.imageElement);
+      this.imageElement = null;
+    }
+
+    this.sources = [];
+    this.isOpen = false;
+  }
+}
@@ -0,0 +1,303 @@
+import type { PostEffectOptions } from './types';
+
+export type PostEffectName = keyof PostEffectOptions;
+
+// One full-screen effect. `uv` code moves the point the scene is read from, `sample` code
+// replaces how the scene is read into `color` and `color` code adjusts the result. Every
+// effect gets a `u_<name>` strength uniform; all of them can read `speed` (0 to 1).
+interface PostEffect {
+  stage: 'uv' | 'sample' | 'color';
+  defaultStrength: number;
+  glsl: string;
+}
+
+// Run in this order within each stage
+export const POST_EFFECTS: Record<PostEffectName, PostEffect> = {
+  barrel: {
+    stage: 'uv',
+    defaultStrength: 0.5,
+    glsl: `
+      // Bulge the view with pan speed, keeping the corners in place
+      vec2 centered = uv - 0.5;
+      float bulge = u_barrel * speed;
+      uv = 0.5 + centered * (1.0 + bulge * dot(centered, centered)) / (1.0 + bulge * 0.5);`,
+  },
+  rgbShift: {
+    stage: 'sample',
+    defaultStrength: 0.5,
+    glsl: `
+      // Split the colour channels along the pan direction
+      vec2 shift = u_velocity * u_rgbShift;
+      float shiftLength = length(shift);
+      if (shiftLength > 0.015) shift *= 0.015 / shiftLength;
+      color = vec3(
+        texture2D(u_scene, uv + shift).r,
+        texture2D(u_scene, uv).g,
+        texture2D(u_scene, uv - shift).b
+      );`,
+  },
+  grain: {
+    stage: 'color',
+    defaultStrength: 0.3,
+    glsl: `
+      // Film grain with a new pattern every frame
+      vec2 seed = v_uv * u_resolution + fract(u_time) * 100.0;
+      float noise = fract(sin(dot(seed, vec2(12.9898, 78.233))) * 43758.5453);
+      color += (noise - 0.5) * 0.2 * u_grain;`,
+  },
+  vignette: {
+    stage: 'color',
+    defaultStrength: 0.5,
+    glsl: `
+      // Darken towards the corners
+      vec2 edge = (v_uv - 0.5) * vec2(u_resolution.x / u_resolution.y, 1.0);
+      color *= 1.0 - u_vignette * smoothstep(0.4, 1.0, length(edge));`,
+  },
+  spotlight: {
+    stage: 'color',
+    defaultStrength: 0.5,
+    glsl: `
+      // Dim everything but a circle around the pointer
+      vec2 toPointer = (v_uv - u_pointer.xy) * vec2(u_resolution.x / u_resolution.y, 1.0);
+      float light = 1.0 - smoothstep(0.12, 0.4, length(toPointer));
+      color *= 1.0 - u_spotlight * u_pointer.z * 0.7 * (1.0 - light);`,
+  },
+};
+
+// Per-frame inputs, velocity in canvas pixels per frame and pointer in canvas pixels
+export interface PostFrame {
+  time: number; // Seconds
+  velocity: { x: number; y: number };
+  pointer: { x: number; y: number } | null;
+}
+
+const VERTEX_SHADER = `
+  attribute vec2 a_position;
+  varying vec2 v_uv;
+
+  void main() {
+    v_uv = a_position * 0.5 + 0.5;
+    gl_Position = vec4(a_position, 0.0, 1.0);
+  }
+`;
+
+/**
+ * Fragment shader running the enabled effects, each in its own block so names don't clash
+ */
+function createFragmentShader(effects: PostEffectName[]): string {
+  const stage = (name: PostEffect['stage']) =>
+    effects
+      .filter((effect) => POST_EFFECTS[effect].stage === name)
+      .map((effect) => `    {${POST_EFFECTS[effect].glsl}\n    }`)
+      .join('\n');
+
+  return `
+  precision highp float;
+
+  varying vec2 v_uv;
+  uniform sampler2D u_scene;
+  uniform vec2 u_resolution;
+  uniform vec2 u_velocity; // Fraction of the view per frame
+  uniform vec3 u_pointer; // UV, and 1.0 while the pointer is over the canvas
+  uniform float u_time;
+${effects.map((effect) => `  uniform float u_${effect};`).join('\n')}
+
+  void main() {
+    vec2 uv = v_uv;
+    float speed = clamp(length(u_velocity) * 40.0, 0.0, 1.0);
+    vec3 color = vec3(0.0);
+${stage('uv')}
+    color = texture2D(u_scene, uv).rgb;
+${stage('sample')}
+${stage('color')}
+    gl_FragColor = vec4(color, 1.0);
+  }`;
+}
+
+// Renders the grid into a texture, then draws that texture to the canvas through the
+// configured effects. With no effects enabled nothing is created and the grid draws directly.
+export class PostProcessor {
+  private gl: WebGLRenderingContext;
+  private effects: PostEffectName[];
+  private strengths: number[];
+  private program: WebGLProgram | null = null;
+  private quadBuffer: WebGLBuffer | null = null;
+  private framebuffer: WebGLFramebuffer | null = null;
+  private texture: WebGLTexture | null = null;
+  private width = 0;
+  private height = 0;
+  private locations: {
+    position: number;
+    scene: WebGLUniformLocation | null;
+    resolution: WebGLUniformLocation | null;
+    velocity: WebGLUniformLocation | null;
+    pointer: WebGLUniformLocation | null;
+    time: WebGLUniformLocation | null;
+    strengths: (WebGLUniformLocation | null)[];
+  } | null = null;
+
+  constructor(gl: WebGLRenderingContext, options: PostEffectOptions) {
+    this.gl = gl;
+    this.effects = (Object.keys(POST_EFFECTS) as PostEffectName[]).filter(
+      (effect) => (options[effect] ?? 0) > 0
+    );
+    this.strengths = this.effects.map((effect) => Math.min(1, options[effect] ?? 0));
+
+    if (this.effects.length > 0) {
+      this.setup();
+    }
+  }
+
+  public get isEnabled(): boolean {
+    return this.program !== null;
+  }
+
+  // Grain changes every frame, so the view can't idle while it is on
+  public get isAnimated(): boolean {
+    return this.isEnabled && this.effects.includes('grain');
+  }
+
+  public get usesPointer(): boolean {
+    return this.isEnabled && this.effects.includes('spotlight');
+  }
+
+  public get usesVelocity(): boolean {
+    return this.isEnabled && (this.effects.includes('rgbShift') || this.effects.includes('barrel'));
+  }
+
+  private setup() {
+    const { gl } = this;
+
+    const vertexShader = this.createShader(VERTEX_SHADER, gl.VERTEX_SHADER);
+    const fragmentShader = this.createShader(
+      createFragmentShader(this.effects),
+      gl.FRAGMENT_SHADER
+    );
+    if (!vertexShader || !fragmentShader) return;
+
+    const program = gl.createProgram();
+    gl.attachShader(program, vertexShader);
+    gl.attachShader(program, fragmentShader);
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      // Effects are decoration; without them the grid still draws straight to the canvas
+      gl.deleteProgram(program);
+      return;
+    }
+
+    this.program = program;
+    this.locations = {
+      position: gl.getAttribLocation(program, 'a_position'),
+      scene: gl.getUniformLocation(program, 'u_scene'),
+      resolution: gl.getUniformLocation(program, 'u_resolution'),
+      velocity: gl.getUniformLocation(program, 'u_velocity'),
+      pointer: gl.getUniformLocation(program, 'u_pointer'),
+      time: gl.getUniformLocation(program, 'u_time'),
+      strengths: this.effects.map((effect) => gl.getUniformLocation(program, `u_${effect}`)),
+    };
+
+    // Two counter-clockwise triangles covering the view, so back-face culling keeps them
+    this.quadBuffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+    gl.bufferData(
+      gl.ARRAY_BUFFER,
+      new Float32Array([-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1]),
+      gl.STATIC_DRAW
+    );
+
+    this.framebuffer = gl.createFramebuffer();
+    this.texture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, this.texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  }
+
+  private createShader(source: string, type: number): WebGLShader | null {
+    const { gl } = this;
+    const shader = gl.createShader(type);
+    if (!shader) return null;
+
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      gl.deleteShader(shader);
+      return null;
+    }
+
+    return shader;
+  }
+
+  // Send the following draw calls into the scene texture, sized like the canvas
+  public begin(width: number, height: number) {
+    const { gl } = this;
+    if (!this.framebuffer || !this.texture) return;
+
+    if (width !== this.width || height !== this.height) {
+      this.width = width;
+      this.height = height;
+
+      gl.bindTexture(gl.TEXTURE_2D, this.texture);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+      gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffer);
+      gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, this.texture, 0);
+    }
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffer);
+  }
+
+  // Draw the scene texture to the canvas through the effects
+  public end(frame: PostFrame) {
+    const { gl, locations } = this;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    if (!this.program || !locations) return;
+
+    gl.useProgram(this.program);
+    gl.uniform2f(locations.resolution, this.width, this.height);
+    gl.uniform2f(
+      locations.velocity,
+      frame.velocity.x / Math.max(1, this.width),
+      -frame.velocity.y / Math.max(1, this.height)
+    );
+    if (frame.pointer) {
+      gl.uniform3f(
+        locations.pointer,
+        frame.pointer.x / Math.max(1, this.width),
+        1 - frame.pointer.y / Math.max(1, this.height),
+        1
+      );
+    } else {
+      gl.uniform3f(locations.pointer, 0.5, 0.5, 0);
+    }
+    gl.uniform1f(locations.time, frame.time);
+    this.strengths.forEach((strength, index) => {
+      gl.uniform1f(locations.strengths[index], strength);
+    });
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.texture);
+    gl.uniform1i(locations.scene, 0);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+    gl.enableVertexAttribArray(locations.position);
+    gl.vertexAttribPointer(locations.position, 2, gl.FLOAT, false, 0, 0);
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+    gl.disableVertexAttribArray(locations.position);
+  }
+
+  public destroy() {
+    const { gl } = this;
+    if (this.program) gl.deleteProgram(this.program);
+    if (this.quadBuffer) gl.deleteBuffer(this.quadBuffer);
+    if (this.framebuffer) gl.deleteFramebuffer(this.framebuffer);
+    if (this.texture) gl.deleteTexture(this.texture);
+
+    this.program = null;
+    this.quadBuffer = null;
+    this.framebuffer = null;
+    this.texture = null;
+    this.locations = null;
+  }
+}
@@ -0,0 +1,79 @@
+// One step of rendering quality, from cheapest to best. Only settings the grid can change
+// while it runs, so a slow session gets cheaper straight away.
+export interface QualityTier {
+  name: 'low' | 'medium' | 'high';
+  maxPixelRatio: number; // Canvas resolution cap
+  allowHD: boolean; // Stream HD textures when zoomed in
+}
+
+export const QUALITY_TIERS: QualityTier[] = [
+  { name: 'low', maxPixelRatio: 1, allowHD: false },
+  { name: 'medium', maxPixelRatio: 1.5, allowHD: true },
+  { name: 'high', maxPixelRatio: Infinity, allowHD: true },
+];
+
+// Watches frame times and steps quality down when frames drop, back up when there is
+// headroom. Drops react after one slow window; recovering takes several fast ones in a row
+// so the tier doesn't flip back and forth.
+export class QualityGovernor {
+  private level: number;
+  private samples: number[] = [];
+  private fastWindows = 0;
+  private readonly WINDOW_SIZE = 60; // Frames averaged per decision
+  private readonly SLOW_FRAME_TIME = 1000 / 45; // Average above this steps down (ms)
+  private readonly FAST_FRAME_TIME = 1000 / 58; // Average below this counts as headroom (ms)
+  private readonly FAST_WINDOWS_TO_STEP_UP = 5;
+  private readonly MAX_FRAME_TIME = 250; // Longer gaps are idle time or a hidden tab, not load
+  public onChange: ((tier: QualityTier) => void) | null = null;
+
+  constructor(level = QUALITY_TIERS.length - 1) {
+    this.level = Math.min(QUALITY_TIERS.length - 1, Math.max(0, Math.round(level)));
+  }
+
+  public get tier(): QualityTier {
+    return QUALITY_TIERS[this.level];
+  }
+
+  public getLevel(): number {
+    return this.level;
+  }
+
+  // Record the time since the previous frame (ms)
+  public sample(frameTime: number) {
+    if (frameTime <= 0 || frameTime > this.MAX_FRAME_TIME) return;
+
+    this.samples.push(frameTime);
+    if (this.samples.length < this.WINDOW_SIZE) return;
+
+    const average = this.samples.reduce((sum, time) => sum + time, 0) / this.samples.length;
+    this.samples = [];
+
+    if (average > this.SLOW_FRAME_TIME) {
+      this.fastWindows = 0;
+      this.setLevel(this.level - 1);
+    } else if (average < this.FAST_FRAME_TIME) {
+      this.fastWindows += 1;
+      if (this.fastWindows >= this.FAST_WINDOWS_TO_STEP_UP) {
+        this.fastWindows = 0;
+        this.setLevel(this.level + 1);
+      }
+    } else {
+      this.fastWindows = 0;
+    }
+  }
+
+  // Forget a partial window, e.g. when the render loop went idle
+  public reset() {
+    this.samples = [];
+  }
+
+  private setLevel(level: number) {
+    const clamped = Math.min(QUALITY_TIERS.length - 1, Math.max(0, level));
+    if (clamped === this.level) return;
+
+    this.level = clamped;
+    if (this.onChange) {
+      this.onChange(this.tier);
+    }
+  }
+}
@@ -0,0 +1,134 @@
+// Slot of one image inside the atlas: page texture index, pixel origin and UV rectangle
+export interface AtlasSlot {
+  page: number;
+  x: number;
+  y: number;
+  uv: [number, number, number, number]; // u0, v0, u1, v1
+  isLoaded: boolean;
+}
+
+// Packs a downscaled copy of every SD image into a few large textures, so the whole grid
+// can be drawn with one instanced draw call per page instead of one call per tile.
+export class TextureAtlas {
+  private gl: WebGLRenderingContext;
+  private cellSize: number;
+  private columns: number;
+  private cellsPerPage: number;
+  private pageHeights: number[] = [];
+  private slots: Map<string, AtlasSlot> = new Map();
+  private scratch: HTMLCanvasElement | null;
+  private scratchContext: CanvasRenderingContext2D | null;
+  public pages: WebGLTexture[] = [];
+
+  constructor(gl: WebGLRenderingContext, sources: string[], cellSize: number, maxPageSize: number) {
+    this.gl = gl;
+
+    // Never ask for more than the GPU supports
+    const pageSize = Math.min(maxPageSize, gl.getParameter(gl.MAX_TEXTURE_SIZE));
+    this.cellSize = Math.min(cellSize, pageSize);
+    this.columns = Math.max(1, Math.floor(pageSize / this.cellSize));
+    this.cellsPerPage = this.columns * this.columns;
+
+    // Every image is stretched over one square cell; the UVs undo the stretch when drawn
+    this.scratch = document.createElement('canvas');
+    this.scratch.width = this.cellSize;
+    this.scratch.height = this.cellSize;
+    this.scratchContext = this.scratch.getContext('2d');
+
+    const uniqueSources = Array.from(new Set(sources));
+    uniqueSources.forEach((source, index) => {
+      this.slots.set(source, this.createSlot(index));
+    });
+
+    this.createPages(uniqueSources.length);
+  }
+
+  private createSlot(index: number): AtlasSlot {
+    const page = Math.floor(index / this.cellsPerPage);
+    const local = index % this.cellsPerPage;
+    const column = local % this.columns;
+    const row = Math.floor(local / this.columns);
+
+    return {
+      page,
+      x: column * this.cellSize,
+      y: row * this.cellSize,
+      uv: [0, 0, 1, 1], // Filled in once the page sizes are known
+      isLoaded: false,
+    };
+  }
+
+  private createPages(cellCount: number) {
+    const { gl } = this;
+    const pageCount = Math.ceil(cellCount / this.cellsPerPage);
+    const width = Math.min(cellCount, this.columns) * this.cellSize;
+
+    for (let page = 0; page < pageCount; page += 1) {
+      // Only allocate the rows this page actually uses
+      const cellsOnPage = Math.min(this.cellsPerPage, cellCount - page * this.cellsPerPage);
+      const height = Math.ceil(cellsOnPage / this.columns) * this.cellSize;
+
+      const texture = gl.createTexture();
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+
+      this.pages.push(texture);
+      this.pageHeights.push(height);
+    }
+
+    // Convert cell coordinates to UVs, inset by half a texel so neighbours never bleed in
+    this.slots.forEach((slot) => {
+      const height = this.pageHeights[slot.page];
+      slot.uv = [
+        (slot.x + 0.5) / width,
+        (slot.y + 0.5) / height,
+        (slot.x + this.cellSize - 0.5) / width,
+        (slot.y + this.cellSize - 0.5) / height,
+      ];
+    });
+  }
+
+  // Copy a loaded image into its cell
+  public add(source: string, image: CanvasImageSource) {
+    const slot = this.slots.get(source);
+    if (!slot || !this.scratch || !this.scratchContext) return;
+
+    const { gl } = this;
+
+    this.scratchContext.clearRect(0, 0, this.cellSize, this.cellSize);
+    this.scratchContext.drawImage(image, 0, 0, this.cellSize, this.cellSize);
+
+    gl.bindTexture(gl.TEXTURE_2D, this.pages[slot.page]);
+    gl.texSubImage2D(gl.TEXTURE_2D, 0, slot.x, slot.y, gl.RGBA, gl.UNSIGNED_BYTE, this.scratch);
+
+    slot.isLoaded = true;
+  }
+
+  public getSlot(source: string): AtlasSlot | undefined {
+    return this.slots.get(source);
+  }
+
+  // Largest on-screen tile height (canvas pixels) the atlas can draw without looking soft
+  public get maxSharpSize(): number {
+    return this.cellSize * 1.25;
+  }
+
+  public destroy() {
+    this.pages.forEach((texture) => {
+      try {
+        this.gl.deleteTexture(texture);
+      } catch {
+        // Context may already be gone
+      }
+    });
+
+    this.pages = [];
+    this.pageHeights = [];
+    this.slots.clear();
+    this.scratch = null;
+    this.scratchContext = null;
+  }
+}
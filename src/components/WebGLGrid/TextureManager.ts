@@ -0,0 +1,115 @@
+// What the manager needs from an HD texture object created by the grid
+export interface StreamedTexture {
+  source: string;
+  width: number;
+  height: number;
+  isInit: boolean; // A load has been started
+  isLoaded: boolean;
+  load(): Promise<void>;
+  unload(): void; // Drop the image data and fall back to the SD texture
+}
+
+// Streams HD textures within a GPU memory budget. Every frame the grid requests the
+// textures it wants; the most central ones load first, a few at a time, and the least
+// recently visible ones are released once the budget is exceeded.
+export class TextureManager {
+  private budget: number; // Bytes
+  private maxConcurrentLoads: number;
+  private frame = 0;
+  private activeLoads = 0;
+  private requests: Map<StreamedTexture, number> = new Map(); // Wanted this frame, by priority
+  private lastVisible: Map<StreamedTexture, number> = new Map(); // Loading or loaded, by frame
+  public onTextureLoaded: ((texture: StreamedTexture) => void) | null = null;
+
+  constructor(budget: number, maxConcurrentLoads: number) {
+    this.budget = budget;
+    this.maxConcurrentLoads = Math.max(1, maxConcurrentLoads);
+  }
+
+  // Mark a texture as wanted this frame; lower priority values load first
+  public request(texture: StreamedTexture, priority: number) {
+    if (texture.isInit) {
+      this.lastVisible.set(texture, this.frame);
+      return;
+    }
+
+    const current = this.requests.get(texture);
+    if (current === undefined || priority < current) {
+      this.requests.set(texture, priority);
+    }
+  }
+
+  // Start the most central pending loads, then trim resident textures back to the budget
+  public update() {
+    const pending = Array.from(this.requests.entries()).sort((a, b) => a[1] - b[1]);
+    for (const [texture] of pending) {
+      if (this.activeLoads >= this.maxConcurrentLoads) break;
+      this.startLoad(texture);
+    }
+    this.requests.clear();
+
+    this.evict();
+    this.frame += 1;
+  }
+
+  private startLoad(texture: StreamedTexture) {
+    this.activeLoads += 1;
+    this.lastVisible.set(texture, this.frame);
+
+    texture.load().then(() => {
+      this.activeLoads -= 1;
+
+      // Released or cleared while the image was on its way
+      if (!this.lastVisible.has(texture) || !texture.isLoaded) return;
+
+      if (this.onTextureLoaded) {
+        this.onTextureLoaded(texture);
+      }
+    });
+  }
+
+  private evict() {
+    let total = this.getResidentBytes();
+    if (total <= this.budget) return;
+
+    // Oldest first, never a texture that is on screen right now
+    const candidates = Array.from(this.lastVisible.entries())
+      .filter(([texture, frame]) => texture.isLoaded && frame < this.frame)
+      .sort((a, b) => a[1] - b[1]);
+
+    for (const [texture] of candidates) {
+      if (total <= this.budget) break;
+
+      total -= TextureManager.estimateBytes(texture);
+      texture.unload();
+      this.lastVisible.delete(texture);
+    }
+  }
+
+  // Uncompressed RGBA without mipmaps
+  public static estimateBytes(texture: StreamedTexture): number {
+    return texture.isLoaded ? texture.width * texture.height * 4 : 0;
+  }
+
+  public getResidentBytes(): number {
+    let total = 0;
+    this.lastVisible.forEach((_frame, texture) => {
+      total += TextureManager.estimateBytes(texture);
+    });
+    return total;
+  }
+
+  // Unload every HD texture, e.g. when HD is switched off
+  public releaseAll() {
+    this.lastVisible.forEach((_frame, texture) => {
+      texture.unload();
+    });
+    this.clear();
+  }
+
+  // Forget every texture, e.g. when the textures themselves are recreated
+  public clear() {
+    this.requests.clear();
+    this.lastVisible.clear();
+  }
+}
@@ -0,0 +1,157 @@
+import { getAccordionEvent } from '../../utils/accordionConfig';
+import type { TileHover } from './types';
+
+export class TileTooltip {
+  private container: HTMLElement;
+  private element: HTMLElement | null = null;
+  private titleElement: HTMLAnchorElement | null = null;
+  private descriptionElement: HTMLElement | null = null;
+  private captionElement: HTMLElement | null = null;
+  private hideTimer: ReturnType<typeof setTimeout> | null = null; // Delays hiding so the pointer can reach the event link
+  private isHovered = false;
+  private readonly MARGIN = 8; // Gap to the tile and the viewport edges (px)
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+    this.setupDOM();
+  }
+
+  private setupDOM(): void {
+    this.element = document.createElement('div');
+    this.element.className = 'archive-tooltip';
+    this.element.style.position = 'fixed';
+    this.element.style.top = '0';
+    this.element.style.left = '0';
+    this.element.style.zIndex = '999';
+    this.element.style.display = 'none';
+    this.element.style.maxWidth = '20rem';
+    this.element.style.padding = '0.5rem 0.75rem';
+    this.element.style.backgroundColor = '#424242';
+    this.element.style.color = '#F3F2F0';
+
+    // Event name, linking to the event on the index page, where DirectLinkHandler opens and
+    // plays its video. Barba picks the click up like any other internal link.
+    this.titleElement = document.createElement('a');
+    this.titleElement.className = 'archive-tooltip__event';
+    this.titleElement.style.display = 'block';
+    this.titleElement.style.color = 'inherit';
+    this.titleElement.style.textDecoration = 'none';
+
+    this.descriptionElement = document.createElement('div');
+    this.descriptionElement.className = 'archive-tooltip__description';
+    this.descriptionElement.style.opacity = '0.6';
+
+    this.captionElement = document.createElement('div');
+    this.captionElement.className = 'archive-tooltip__caption';
+    this.captionElement.style.marginTop = '0.25rem';
+
+    this.element.appendChild(this.titleElement);
+    this.element.appendChild(this.descriptionElement);
+    this.element.appendChild(this.captionElement);
+
+    // Stay open while the pointer is on the tooltip itself
+    this.element.addEventListener('mouseenter', () => {
+      this.isHovered = true;
+      this.clearHideTimer();
+    });
+    this.element.addEventListener('mouseleave', () => {
+      this.isHovered = false;
+      this.hide();
+    });
+
+    this.container.appendChild(this.element);
+  }
+
+  // Show the event and caption of the hovered image next to its tile
+  public show(hover: TileHover): void {
+    if (!this.element || !this.titleElement || !this.descriptionElement || !this.captionElement) {
+      return;
+    }
+
+    const { image } = hover;
+    const event = image.eventId ? getAccordionEvent(image.eventId) : null;
+    const caption: string = image.caption || '';
+    if (!event && !caption) {
+      this.hide();
+      return;
+    }
+
+    this.clearHideTimer();
+
+    if (event) {
+      this.titleElement.textContent = event.displayName;
+      this.titleElement.href = `/?event=${encodeURIComponent(event.id)}`;
+      this.titleElement.setAttribute('aria-label', `Watch ${event.displayName}`);
+    }
+    this.titleElement.style.display = event ? 'block' : 'none';
+    this.descriptionElement.textContent = event?.description || '';
+    this.descriptionElement.style.display = event?.description ? 'block' : 'none';
+    this.captionElement.textContent = caption;
+    this.captionElement.style.display = caption ? 'block' : 'none';
+    this.captionElement.style.marginTop = event ? '0.25rem' : '0';
+
+    this.element.style.display = 'block';
+    this.position(hover.bounds);
+  }
+
+  // Below the tile, above it when there is no room, or inside it when it fills the screen
+  private position(bounds: TileHover['bounds']): void {
+    if (!this.element) return;
+
+    const width = this.element.offsetWidth;
+    const height = this.element.offsetHeight;
+    const maxX = window.innerWidth - width - this.MARGIN;
+    const maxY = window.innerHeight - height - this.MARGIN;
+
+    const x = Math.max(this.MARGIN, Math.min(maxX, bounds.left));
+    let y = bounds.bottom + this.MARGIN;
+    if (y > maxY) {
+      y = bounds.top - height - this.MARGIN;
+    }
+    if (y < this.MARGIN) {
+      y = Math.max(this.MARGIN, Math.min(maxY, bounds.bottom - height - this.MARGIN));
+    }
+
+    this.element.style.transform = `translate(${Math.round(x)}px, ${Math.round(y)}px)`;
+  }
+
+  // Hide after a short delay, unless the pointer moves onto the tooltip
+  public hide(): void {
+    if (this.hideTimer || this.isHovered) return;
+
+    this.hideTimer = setTimeout(() => {
+      this.hideTimer = null;
+      if (!this.isHovered) {
+        this.hideNow();
+      }
+    }, 150);
+  }
+
+  public hideNow(): void {
+    this.clearHideTimer();
+    this.isHovered = false;
+    if (this.element) {
+      this.element.style.display = 'none';
+    }
+  }
+
+  private clearHideTimer(): void {
+    if (this.hideTimer) {
+      clearTimeout(this.hideTimer);
+      this.hideTimer = null;
+    }
+  }
+
+  public destroy(): void {
+    this.clearHideTimer();
+
+    if (this.element) {
+      this.element.remove();
+      this.element = null;
+    }
+
+    this.titleElement = null;
+    this.descriptionElement = null;
+    this.captionElement = null;
+  }
+}
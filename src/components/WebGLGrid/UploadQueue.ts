@@ -0,0 +1,36 @@
+// Spreads texture uploads over several frames. Each frame uploads queued images until
+// the pixel budget is spent, so a burst of decoded images never stalls a single frame.
+export class UploadQueue {
+  private budget: number; // Pixels per frame
+  private tasks: { pixels: number; upload: () => void }[] = [];
+
+  constructor(budget: number) {
+    this.budget = budget;
+  }
+
+  public add(pixels: number, upload: () => void) {
+    this.tasks.push({ pixels, upload });
+  }
+
+  // Run uploads for this frame; the first one always runs, however large
+  public flush() {
+    let spent = 0;
+
+    while (this.tasks.length > 0) {
+      const { pixels } = this.tasks[0];
+      if (spent > 0 && spent + pixels > this.budget) break;
+
+      const task = this.tasks.shift();
+      spent += pixels;
+      task?.upload();
+    }
+  }
+
+  public get length(): number {
+    return this.tasks.length;
+  }
+
+  public clear() {
+    this.tasks = [];
+  }
+}
@@ -0,0 +1,233 @@
+import { gsap } from 'gsap';
+
+import { cleanupHLSVideo, initializeHLSVideo } from '../video/hlsVideoLoader';
+
+// A muted looping clip and the texture its frames are copied into. Every tile showing the
+// same clip shares one.
+export interface VideoTexture {
+  source: string;
+  texture: WebGLTexture | null;
+  video: HTMLVideoElement | null; // Only while it holds a decoder
+  opacity: number; // Fades in over the still once the first frame is uploaded
+  hasFrame: boolean;
+  frameTime: number; // currentTime of the uploaded frame
+}
+
+// Plays video tiles within a hard decoder budget. Every frame the grid requests the clips
+// of its visible tiles; the most central ones get a decoder and play, clips that left the
+// view pause, and paused clips give their decoder up to newly visible ones. Frames are only
+// uploaded for playing clips, and everything pauses while the tab is hidden.
+export class VideoTextureManager {
+  private gl: WebGLRenderingContext;
+  private maxDecoders: number;
+  private frame = 0;
+  private videos: Map<string, VideoTexture> = new Map();
+  private requests: Map<string, number> = new Map(); // Wanted this frame, by priority
+  private lastVisible: Map<VideoTexture, number> = new Map(); // Holding a decoder, by frame
+  private isHidden = document.hidden;
+  public onChange: (() => void) | null = null; // A clip started, stopped or the tab came back
+
+  constructor(gl: WebGLRenderingContext, maxDecoders: number) {
+    this.gl = gl;
+    this.maxDecoders = Math.max(0, maxDecoders);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+  }
+
+  // Mark a clip as on screen this frame; lower priority values play first
+  public request(source: string, priority: number) {
+    if (this.maxDecoders === 0) return;
+
+    const current = this.requests.get(source);
+    if (current === undefined || priority < current) {
+      this.requests.set(source, priority);
+    }
+  }
+
+  // The clip's texture once it has a frame to show
+  public get(source: string): VideoTexture | null {
+    const entry = this.videos.get(source);
+    return entry && entry.hasFrame ? entry : null;
+  }
+
+  // Frames keep arriving while any clip plays, so the view can't idle
+  public get isPlaying(): boolean {
+    for (const entry of this.lastVisible.keys()) {
+      if (entry.video && !entry.video.paused) return true;
+    }
+    return false;
+  }
+
+  // Play the most central requested clips, pause the rest and upload new frames
+  public update() {
+    const wanted = this.isHidden
+      ? []
+      : Array.from(this.requests.entries())
+          .sort((a, b) => a[1] - b[1])
+          .slice(0, this.maxDecoders)
+          .map(([source]) => this.getEntry(source));
+    this.requests.clear();
+
+    // Off screen or beyond the budget: pause but keep the decoder until a slot is needed
+    this.lastVisible.forEach((_frame, entry) => {
+      if (!wanted.includes(entry) && entry.video && !entry.video.paused) {
+        entry.video.pause();
+      }
+    });
+
+    wanted.forEach((entry) => {
+      if (!entry.video && !this.freeDecoder(wanted)) return;
+
+      this.lastVisible.set(entry, this.frame);
+      if (!entry.video) {
+        this.startVideo(entry);
+      } else if (entry.video.paused && entry.video.readyState >= 2) {
+        entry.video.play().catch(() => {
+          // Autoplay refused; the still stays in place
+        });
+      }
+
+      this.uploadFrame(entry);
+    });
+
+    this.frame += 1;
+  }
+
+  private getEntry(source: string): VideoTexture {
+    let entry = this.videos.get(source);
+    if (!entry) {
+      entry = {
+        source,
+        texture: null,
+        video: null,
+        opacity: 0,
+        hasFrame: false,
+        frameTime: -1,
+      };
+      this.videos.set(source, entry);
+    }
+    return entry;
+  }
+
+  // Release the longest paused clip that isn't wanted, false if every decoder is in use
+  private freeDecoder(wanted: VideoTexture[]): boolean {
+    if (this.lastVisible.size < this.maxDecoders) return true;
+
+    const candidates = Array.from(this.lastVisible.entries())
+      .filter(([entry]) => !wanted.includes(entry))
+      .sort((a, b) => a[1] - b[1]);
+    if (candidates.length === 0) return false;
+
+    this.releaseVideo(candidates[0][0]);
+    return true;
+  }
+
+  private startVideo(entry: VideoTexture) {
+    const video = document.createElement('video');
+    video.crossOrigin = 'anonymous';
+    video.muted = true;
+    video.loop = true;
+    video.playsInline = true;
+    video.setAttribute('playsinline', '');
+    entry.video = video;
+
+    const onReady = () => {
+      if (entry.video !== video) return;
+      video.play().catch(() => {
+        // Autoplay refused; the still stays in place
+      });
+      this.notifyChange();
+    };
+
+    if (/\.m3u8($|\?)/i.test(entry.source)) {
+      initializeHLSVideo(video, entry.source)
+        .then(onReady, () => {
+          if (entry.video === video) {
+            this.releaseVideo(entry);
+          }
+        })
+        .finally(() => {
+          // Released while Hls.js was starting: its instance only registers once the manifest
+          // is parsed, so the release couldn't destroy it and it would keep buffering
+          if (entry.video !== video) {
+            this.stopVideo(video);
+          }
+        });
+    } else {
+      video.preload = 'auto';
+      video.addEventListener('canplay', onReady, { once: true });
+      video.src = entry.source;
+    }
+  }
+
+  private uploadFrame(entry: VideoTexture) {
+    const { gl } = this;
+    const { video } = entry;
+    if (!video || video.paused || video.readyState < 2 || video.currentTime === entry.frameTime) {
+      return;
+    }
+
+    if (!entry.texture) {
+      entry.texture = gl.createTexture();
+      gl.bindTexture(gl.TEXTURE_2D, entry.texture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    }
+
+    gl.bindTexture(gl.TEXTURE_2D, entry.texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, video);
+    entry.frameTime = video.currentTime;
+
+    if (!entry.hasFrame) {
+      entry.hasFrame = true;
+      gsap.to(entry, { opacity: 1, duration: 0.5, ease: 'power2.out' });
+    }
+  }
+
+  // Give the decoder back; the tile shows its still until the clip plays again
+  private releaseVideo(entry: VideoTexture) {
+    if (entry.video) {
+      this.stopVideo(entry.video);
+    }
+
+    gsap.killTweensOf(entry);
+    if (entry.texture) {
+      this.gl.deleteTexture(entry.texture);
+    }
+    Object.assign(entry, {
+      texture: null,
+      video: null,
+      opacity: 0,
+      hasFrame: false,
+      frameTime: -1,
+    });
+    this.lastVisible.delete(entry);
+  }
+
+  // Stop loading and decoding, destroying the clip's Hls.js instance if it has one
+  private stopVideo(video: HTMLVideoElement) {
+    video.pause();
+    cleanupHLSVideo(video);
+    video.removeAttribute('src');
+    video.load();
+  }
+
+  private handleVisibilityChange = () => {
+    this.isHidden = document.hidden;
+    this.notifyChange();
+  };
+
+  private notifyChange() {
+    if (this.onChange) {
+      this.onChange();
+    }
+  }
+
+  public destroy() {
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.lastVisible.forEach((_frame, entry) => this.releaseVideo(entry));
+    this.videos.clear();
+    this.requests.clear();
+    this.onChange = null;
+  }
+}
@@ -1,13 +1,54 @@
 import { gsap } from 'gsap';
 
-export class WebGLGrid {
+import { decodeBlurhash } from '../../utils/blurhash';
+import type { CMSImage } from '../../utils/imageDataParser';
+import { createRandom, createSeed, shuffleArray } from '../../utils/random';
+import { ArchiveEvents } from './ArchiveEvents';
+import { type ResolvedGridOptions, resolveGridOptions } from './gridOptions';
+import { type DecodedImage, loadDecodedImage, releaseDecodedImage } from './imageLoader';
+import { detectImageFileFormat, getImageSource, type ImageFileFormat } from './imageSource';
+import { createEventLayout, createGridLayout } from './layout';
+import { PostProcessor } from './PostProcessing';
+import type { QualityTier } from './QualityGovernor';
+import { TextureAtlas } from './TextureAtlas';
+import { TextureManager } from './TextureManager';
+import type {
+  ArchiveRenderer,
+  CameraMoveOptions,
+  CameraState,
+  GestureEvent,
+  GridOptions,
+  InitialView,
+  InstancedLocations,
+  TileHover,
+} from './types';
+import { UploadQueue } from './UploadQueue';
+import { type VideoTexture, VideoTextureManager } from './VideoTextureManager';
+
+// A tile of the grid and the textures it draws, as built by createGridItem
+type GridTile = ReturnType<WebGLGrid['createGridItem']>;
+
+export class WebGLGrid implements ArchiveRenderer {
   // Core class properties
   private gl: WebGLRenderingContext;
   private program: WebGLProgram;
   private images: any[] = [];
+  private uniqueImages: CMSImage[] = [];
   private textures: any[] = [];
   private texturesHD: any[] = [];
+  private textureManager: TextureManager; // Streams HD textures within the memory budget
+  private videoManager: VideoTextureManager | null = null; // Plays video tiles within the decoder cap
+  private uploadQueue: UploadQueue; // Spreads decoded image uploads over frames
+  private allowHD = true; // Lowered by the quality governor on slow devices
+  private pendingPixelRatio: number | null = null; // Applied once the camera is at rest
   private imagesGL: any[] = [];
+  private visibleItems: GridTile[] = []; // Items intersecting the viewport in the last frame
+  private maxTileAspect = 1; // Tallest height/width ratio, bounds the row visibility test
+  private masonryColumns: GridTile[][] = []; // Items per column in the masonry layout, top to bottom
+  private masonryColumnAspects: number[] = []; // Column heights in item widths, without gaps
+  private layoutImages: CMSImage[] = []; // Seeded layout of every image, restored without a filter
+  private filterEventId: string | null = null; // Event whose tiles are shown, or null for all
+  private filterTween: gsap.core.Tween | null = null;
 
   // Buffers and locations
   private positionBuffer: WebGLBuffer;
@@ -23,11 +64,34 @@ export class WebGLGrid {
   private opacityHDLocation: WebGLUniformLocation;
   private opacitySDLocation: WebGLUniformLocation;
   private grayscaleLocation: WebGLUniformLocation;
+  private highlightLocation: WebGLUniformLocation | null = null;
+  private borderLocation: WebGLUniformLocation | null = null;
   private backgroundRLocation: WebGLUniformLocation;
   private backgroundGLocation: WebGLUniformLocation;
   private backgroundBLocation: WebGLUniformLocation;
+  private backgroundLocation: WebGLUniformLocation | null = null;
+  private placeholderLocation: WebGLUniformLocation | null = null;
+  private opacityPlaceholderLocation: WebGLUniformLocation | null = null;
+
+  // Instanced rendering (ANGLE_instanced_arrays) of SD tiles from the texture atlas
+  private instancing: ANGLE_instanced_arrays | null = null;
+  private instancedProgram: WebGLProgram | null = null;
+  private instanceBuffer: WebGLBuffer | null = null;
+  private instanceData = new Float32Array(0);
+  private instancedLocations: InstancedLocations | null = null;
+  private atlas: TextureAtlas | null = null;
+  private placeholderAtlas: TextureAtlas | null = null; // Tiny blurred placeholders, one page
+  private postProcessor: PostProcessor | null = null; // Full-screen effects from options.effects
+  private effectVelocity = { x: 0, y: 0 }; // Smoothed pan per frame (canvas px) fed to the effects
+  // x, y, width, height, u0, v0, u1, v1, opacity, highlight, placeholder opacity,
+  // filter visibility, r, g, b, placeholder u0, v0, u1, v1
+  private readonly INSTANCE_STRIDE = 19;
+  private readonly ATLAS_CELL_SIZE = 256;
+  private readonly PLACEHOLDER_SIZE = 16; // BlurHash decode size, also the placeholder atlas cell
 
   // Grid parameters
+  private options: ResolvedGridOptions;
+  private backgroundColor = { r: 0, g: 0, b: 0 }; // Normalised RGB of options.backgroundColor
   private COLUMN_ITEM_LENGTH: number;
   private ROW_ITEM_LENGTH: number;
   private HORIZONTAL_GAP: number;
@@ -42,9 +106,11 @@ export class WebGLGrid {
   // State tracking
   private isInit = false;
   private isDestroyed = false;
+  private isContextLost = false;
   public isIntroShown = false;
   private HDImagesHasBeenLoaded = false;
   private pixelRatio: number;
+  private imagePixelRatio: number; // Sizes the image URLs; fixed so texture keys never go stale
   private windowSize: { width: number; height: number };
   private mouse = { x: 0, y: 0 };
   private lerpedMouse = { x: 0, y: 0 };
@@ -55,7 +121,29 @@ export class WebGLGrid {
   private prevLerpedScroll = { x: 0, y: 0 };
   private velocity = { x: 0, y: 0 };
   private isDragging = false;
+  private pointerDown = { x: 0, y: 0 };
+  private readonly CLICK_TRAVEL_THRESHOLD = 6; // Max pointer travel (px) still treated as a click
   private currentZoom = 1;
+  private readonly MIN_ZOOM: number;
+  private readonly MAX_ZOOM: number;
+  private zoomTween: gsap.core.Tween | null = null;
+  private isPinching = false;
+  private pinchStartDistance = 0;
+  private pinchStartZoom = 1;
+  private gestureStartZoom = 1;
+  private panOffset = { x: 0, y: 0 }; // Accumulated pan in zoom-independent units
+  private panTween: gsap.core.Tween | null = null; // Also carries zoom for flyTo
+  private hasPanned = false; // The pan changed since the last frame
+  private isPanning = false; // Waiting for the pan to rest before emitting panend
+  private seed: number; // Shuffle seed, so a layout can be reproduced
+  private random: () => number;
+  private initialZoom: number; // Zoom the intro settles on
+  private initialPan = { x: 0, y: 0 }; // Pan (CSS pixels at zoom 1) applied once the intro ends
+  private heldKeys: Set<string> = new Set();
+  private focusedItem: GridTile | null = null;
+  private hoveredItem: GridTile | null = null;
+  private hoverPoint: { x: number; y: number } | null = null; // Pointer over the canvas (client px)
+  private readonly KEY_PAN_ACCELERATION = 1.2;
   private time = 0;
   public grayscale = 1;
   private TLIntro: gsap.core.Timeline;
@@ -67,7 +155,7 @@ export class WebGLGrid {
   private anchorCenterTop: number = 0;
   private centerCameraOffsetX: number;
   private centerCameraOffsetY: number;
-  private fileFormat: string = 'webp'; // Default format
+  private fileFormat: ImageFileFormat = 'webp'; // Default format
   public vs: any; // Virtual scroll instance
   private resizeObserver: ResizeObserver | null = null;
   private indexTextureSD = 0;
@@ -76,9 +164,17 @@ export class WebGLGrid {
   private boundHandleResize: () => void;
   private delayIntroAnimation = false; // Flag to delay intro animation
   private texturesLoaded = false; // Flag to track if textures are loaded
+  private isResuming = false; // Back within the session: fade in at the saved view, no intro
 
   public onIntroMostlyDone: (() => void) | null = null;
-  private drawnPositions: Set<string> = new Set();
+  public onTileClick: ((image: CMSImage, index: number) => void) | null = null;
+  public onTileFocus: ((image: CMSImage, index: number) => void) | null = null;
+  public onTileHover: ((hover: TileHover | null) => void) | null = null;
+  public onContextLost: (() => void) | null = null;
+  public onContextRestored: (() => void) | null = null;
+  public onCameraChange: (() => void) | null = null;
+  public onInvalidate: (() => void) | null = null;
+  public readonly events = new ArchiveEvents();
 
   // Fragment shader
   private fragmentShader = `
@@ -91,7 +187,12 @@ export class WebGLGrid {
   uniform float u_opacity;
   uniform float u_opacity_texture_hd;
   uniform float u_opacity_texture_sd;
+  uniform sampler2D u_placeholder;
+  uniform float u_opacity_placeholder;
   uniform float u_grayscale;
+  uniform float u_highlight;
+  uniform vec2 u_border;
+  uniform vec3 u_background;
   uniform float u_r;
   uniform float u_g;
   uniform float u_b;
@@ -101,18 +202,32 @@ export class WebGLGrid {
       v_texcoord.y < 0.0 ||
       v_texcoord.x > 1.0 ||
       v_texcoord.y > 1.0) {
-      gl_FragColor = vec4(0.0588, 0.0588, 0.0588, 1.0); // #0F0F0F
+      gl_FragColor = vec4(u_background, 1.0);
       return;
     }
     vec4 texture = texture2D(u_texture, v_texcoord);
     vec4 textureHD = texture2D(u_textureHD, v_texcoord);
-    vec4 colorBackground = vec4(0.0588, 0.0588, 0.0588, 1.0); // #0F0F0F
-    vec4 backgroundMixTexture = mix(colorBackground, texture, u_opacity_texture_sd);
+    vec4 colorBackground = vec4(u_r, u_g, u_b, 1.0); // Placeholder colour until the image shows
+    vec4 placeholder = texture2D(u_placeholder, v_texcoord);
+    vec4 placeholderMix = mix(colorBackground, placeholder, u_opacity_placeholder);
+    vec4 backgroundMixTexture = mix(placeholderMix, texture, u_opacity_texture_sd);
     vec4 colorMixTexture = mix(backgroundMixTexture, textureHD, u_opacity_texture_hd);
     
     vec3 lum = vec3(0.299, 0.587, 0.114);
     vec3 gray = vec3(dot(lum, colorMixTexture.rgb));
-    gl_FragColor = vec4(mix(colorMixTexture.rgb, gray, u_grayscale), 1.0);
+    vec3 color = mix(colorMixTexture.rgb, gray, u_grayscale);
+
+    // Keyboard focus outline
+    if (u_highlight > 0.0 &&
+      (v_texcoord.x < u_border.x ||
+      v_texcoord.y < u_border.y ||
+      v_texcoord.x > 1.0 - u_border.x ||
+      v_texcoord.y > 1.0 - u_border.y)) {
+      color = mix(color, vec3(0.953, 0.949, 0.941), u_highlight); // #F3F2F0
+    }
+
+    // Filtered-out tiles fade into the background
+    gl_FragColor = vec4(mix(u_background, color, u_opacity), 1.0);
   }`;
 
   // Vertex shader
@@ -129,33 +244,153 @@ export class WebGLGrid {
     }
   `;
 
+  // Instanced vertex shader: one unit quad per tile, placed by per-instance attributes
+  private instancedVertexShader = `
+    attribute vec2 a_position;
+    attribute vec4 a_rect;
+    attribute vec4 a_uv;
+    attribute vec4 a_state;
+    attribute vec3 a_color;
+    attribute vec4 a_placeholderUv;
+    uniform vec2 u_resolution;
+    uniform float u_borderWidth;
+    varying vec2 v_texcoord;
+    varying vec2 v_atlasCoord;
+    varying float v_opacity;
+    varying float v_highlight;
+    varying vec2 v_border;
+    varying vec3 v_color;
+    varying vec2 v_placeholderCoord;
+    varying float v_placeholder;
+    varying float v_visibility;
+
+    void main() {
+      vec2 pixel = a_rect.xy + a_position * a_rect.zw;
+      vec2 clip = pixel / u_resolution * 2.0 - 1.0;
+      gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+      v_texcoord = a_position;
+      v_atlasCoord = mix(a_uv.xy, a_uv.zw, a_position);
+      v_opacity = a_state.x;
+      v_highlight = a_state.y;
+      v_border = u_borderWidth / a_rect.zw;
+      v_color = a_color;
+      v_placeholderCoord = mix(a_placeholderUv.xy, a_placeholderUv.zw, a_position);
+      v_placeholder = a_state.z;
+      v_visibility = a_state.w;
+    }
+  `;
+
+  // Instanced fragment shader, matching the per-item look for SD textures
+  private instancedFragmentShader = `
+  precision highp float;
+
+  varying vec2 v_texcoord;
+  varying vec2 v_atlasCoord;
+  varying float v_opacity;
+  varying float v_highlight;
+  varying vec2 v_border;
+  varying vec3 v_color;
+  varying vec2 v_placeholderCoord;
+  varying float v_placeholder;
+  varying float v_visibility;
+  uniform sampler2D u_atlas;
+  uniform sampler2D u_placeholders;
+  uniform float u_grayscale;
+  uniform vec3 u_background;
+
+  void main() {
+    vec4 texture = texture2D(u_atlas, v_atlasCoord);
+    vec3 placeholder = texture2D(u_placeholders, v_placeholderCoord).rgb;
+    vec3 placeholderMix = mix(v_color, placeholder, v_placeholder);
+    vec3 colorMixTexture = mix(placeholderMix, texture.rgb, v_opacity);
+
+    vec3 lum = vec3(0.299, 0.587, 0.114);
+    vec3 gray = vec3(dot(lum, colorMixTexture));
+    vec3 color = mix(colorMixTexture, gray, u_grayscale);
+
+    // Keyboard focus outline
+    if (v_highlight > 0.0 &&
+      (v_texcoord.x < v_border.x ||
+      v_texcoord.y < v_border.y ||
+      v_texcoord.x > 1.0 - v_border.x ||
+      v_texcoord.y > 1.0 - v_border.y)) {
+      color = mix(color, vec3(0.953, 0.949, 0.941), v_highlight); // #F3F2F0
+    }
+
+    gl_FragColor = vec4(mix(u_background, color, v_visibility), 1.0);
+  }`;
+
+  // Check whether this browser can create a WebGL context at all
+  public static isSupported(): boolean {
+    try {
+      const probe = document.createElement('canvas');
+      const gl = probe.getContext('webgl');
+      if (!gl) return false;
+
+      // Release the probe context straight away
+      const ext = gl.getExtension('WEBGL_lose_context');
+      if (ext) ext.loseContext();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   constructor(
     canvas: HTMLCanvasElement,
     originalImages: any[],
     isMobile: boolean,
-    delayIntro = false
+    delayIntro = false,
+    initialState: InitialView = {},
+    options: Partial<GridOptions> = {}
   ) {
     this.canvasElement = canvas;
     this.isMobile = isMobile;
     this.delayIntroAnimation = delayIntro;
+    this.isResuming = initialState.resume ?? false;
+
+    // Set constants from the options, with smaller defaults on mobile
+    this.options = resolveGridOptions(isMobile, options);
+    this.COLUMN_ITEM_LENGTH = this.options.columnCount;
+    this.ROW_ITEM_LENGTH = this.options.rowCount;
+    this.pixelRatio = Math.min(this.options.pixelRatio, this.options.maxPixelRatio ?? Infinity);
+    this.imagePixelRatio = this.pixelRatio;
+    this.MIN_ZOOM = this.options.minZoom;
+    this.MAX_ZOOM = this.options.maxZoom;
+
+    const { r, g, b } = this.hexToRgb(this.options.backgroundColor);
+    this.backgroundColor = { r: r / 255, g: g / 255, b: b / 255 };
+
+    // Pixels uploaded to the GPU per frame, a couple of SD images at most
+    this.uploadQueue = new UploadQueue(isMobile ? 1024 * 1024 : 4 * 1024 * 1024);
+
+    this.textureManager = new TextureManager(
+      this.options.textureBudget * 1024 * 1024,
+      this.options.maxConcurrentLoads
+    );
+    this.textureManager.onTextureLoaded = (texture) => {
+      // Fade over the SD texture, unless the textures were rebuilt meanwhile
+      const textureHD = this.texturesHD.find((tex) => tex === texture);
+      if (textureHD) {
+        textureHD.fadeTextureIn(0);
+      }
+    };
 
-    // Set constants based on mobile status
-    if (isMobile) {
-      // Conservative settings for mobile - prevents memory issues
-      this.COLUMN_ITEM_LENGTH = Math.min(window.innerWidth < 480 ? 39 : 49, 49);
-      this.ROW_ITEM_LENGTH = Math.min(window.innerWidth < 480 ? 15 : 20, 20);
-
-      // Cap pixel ratio on mobile to reduce memory usage
-      this.pixelRatio = Math.min(window.devicePixelRatio || 1, 2.0);
-    } else {
-      this.COLUMN_ITEM_LENGTH = 79;
-      this.ROW_ITEM_LENGTH = 30;
-      this.pixelRatio = window.devicePixelRatio || 1;
-    }
-
-    // Shuffle images without limiting them
-    const shuffledImages = this.randomizeArray(originalImages);
-    this.images = [...shuffledImages, ...this.randomizeArray(shuffledImages)];
+    // Restore a shared view, or start a fresh random layout
+    this.seed = initialState.seed ?? this.options.seed ?? createSeed();
+    this.random = createRandom(this.seed);
+    this.initialZoom = this.clampZoom(initialState.zoom ?? this.options.introZoom);
+    this.initialPan = { x: initialState.x ?? 0, y: initialState.y ?? 0 };
+
+    // Shuffle images without limiting them, then lay them out so no tile sits next to itself
+    this.uniqueImages = shuffleArray(originalImages, this.random);
+    this.images = createGridLayout(
+      this.uniqueImages,
+      this.COLUMN_ITEM_LENGTH,
+      this.ROW_ITEM_LENGTH,
+      this.random
+    );
+    this.layoutImages = this.images;
 
     // FIXED: Initialize WebGL context first to get canvas dimensions
     this.gl = canvas.getContext('webgl', {
@@ -164,6 +399,10 @@ export class WebGLGrid {
       alpha: false,
     });
 
+    if (!this.gl) {
+      throw new Error('WebGL not supported');
+    }
+
     // FIXED: Force canvas to full container size
     this.fixCanvasSize();
 
@@ -174,10 +413,10 @@ export class WebGLGrid {
     };
 
     // Initialize grid spacing and item dimensions
-    this.HORIZONTAL_GAP = 10 * this.pixelRatio;
-    this.VERTICAL_GAP = 10 * this.pixelRatio;
-    this.ITEM_WIDTH = 90 * this.pixelRatio;
-    this.ITEM_HEIGHT = 140 * this.pixelRatio;
+    this.HORIZONTAL_GAP = this.options.horizontalGap * this.pixelRatio;
+    this.VERTICAL_GAP = this.options.verticalGap * this.pixelRatio;
+    this.ITEM_WIDTH = this.options.itemWidth * this.pixelRatio;
+    this.ITEM_HEIGHT = this.options.itemHeight * this.pixelRatio;
     this.ORIGINAL_HORIZONTAL_GAP = this.HORIZONTAL_GAP;
     this.ORIGINAL_VERTICAL_GAP = this.VERTICAL_GAP;
     this.ORIGINAL_ITEM_WIDTH = this.ITEM_WIDTH;
@@ -191,6 +430,10 @@ export class WebGLGrid {
 
     // Setup resize observer for the canvas
     this.setupResizeObserver(canvas);
+
+    // Mobile GPUs may drop the context at any time, so be ready to rebuild
+    canvas.addEventListener('webglcontextlost', this.handleContextLost);
+    canvas.addEventListener('webglcontextrestored', this.handleContextRestored);
   }
 
   // New method to explicitly start the intro sequence
@@ -243,46 +486,11 @@ export class WebGLGrid {
       : { r: 0, g: 0, b: 0 };
   }
 
-  // Shuffle array without limiting
-  private randomizeArray(arr: any[]): any[] {
-    const array = [...arr]; // Create a copy
-
-    // Fisher-Yates shuffle
-    for (let i = array.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [array[i], array[j]] = [array[j], array[i]];
-    }
-
-    return array;
-  }
-
-  // Check if a format is supported
-  private async isFormatSupported(format: string, base64Data: string): Promise<boolean> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.src = `data:image/${format};base64,${base64Data}`;
-
-      img.onload = () => resolve(true);
-      img.onerror = () => reject(new Error(`${format.toUpperCase()} format not supported`));
-    });
-  }
-
   // Initialize WebGL setup
   private async init() {
     try {
       // Check for modern format support (AVIF/WebP)
-      const avifSupported = await this.isFormatSupported(
-        'avif',
-        'AAAAIGZ0eXBhdmlmAAAAAGF2aWZtaWYxbWlhZk1BMUIAAADybWV0YQAAAAAAAAAoaGRscgAAAAAAAAAAcGljdAAAAAAAAAAAAAAAAGxpYmF2aWYAAAAADnBpdG0AAAAAAAEAAAAeaWxvYwAAAABEAAABAAEAAAABAAABGgAAAB0AAAAoaWluZgAAAAAAAQAAABppbmZlAgAAAAABAABhdjAxQ29sb3IAAAAAamlwcnAAAABLaXBjbwAAABRpc3BlAAAAAAAAAAIAAAACAAAAEHBpeGkAAAAAAwgICAAAAAxhdjFDgQ0MAAAAABNjb2xybmNseAACAAIAAYAAAAAXaXBtYQAAAAAAAAABAAEEAQKDBAAAACVtZGF0EgAKCBgANogQEAwgMg8f8D///8WfhwB8+ErK42A='
-      ).catch(() => false);
-
-      const webpSupported = await this.isFormatSupported(
-        'webp',
-        'UklGRjoAAABXRUJQVlA4IC4AAACyAgCdASoCAAIALmk0mk0iIiIiIgBoSygABc6WWgAA/veff/0PP8bA//LwYAAA'
-      ).catch(() => false);
-
-      // Set the file format based on browser support
-      this.fileFormat = avifSupported ? 'avif' : webpSupported ? 'webp' : 'originalFormat';
+      this.fileFormat = await detectImageFileFormat();
 
       // Initialize main WebGL setup
       this.main();
@@ -300,51 +508,8 @@ export class WebGLGrid {
     // Make sure canvas is sized properly before anything else
     this.fixCanvasSize();
 
-    // Enable WebGL features
-    this.gl.enable(this.gl.CULL_FACE);
-    this.gl.cullFace(this.gl.BACK);
-    this.gl.enable(this.gl.BLEND);
-    this.gl.disable(this.gl.DEPTH_TEST);
-    this.gl.blendFunc(this.gl.SRC_ALPHA, this.gl.ONE_MINUS_SRC_ALPHA);
-
-    // Set initial clear color to match site background
-    this.gl.clearColor(0.0588, 0.0588, 0.0588, 1.0);
-
-    // Create shader program
-    const vertexShader = this.createShader(this.vertexShader, this.gl.VERTEX_SHADER);
-    const fragmentShader = this.createShader(this.fragmentShader, this.gl.FRAGMENT_SHADER);
-    this.program = this.createProgram(vertexShader, fragmentShader);
-
-    // Get attribute and uniform locations
-    this.positionLocation = this.gl.getAttribLocation(this.program, 'a_position');
-    this.texcoordLocation = this.gl.getAttribLocation(this.program, 'a_texcoord');
-    this.matrixLocation = this.gl.getUniformLocation(this.program, 'u_matrix');
-    this.textureMatrixLocation = this.gl.getUniformLocation(this.program, 'u_textureMatrix');
-    this.textureLocation = this.gl.getUniformLocation(this.program, 'u_texture');
-    this.timeLocation = this.gl.getUniformLocation(this.program, 'u_time');
-    this.opacityLocation = this.gl.getUniformLocation(this.program, 'u_opacity');
-    this.textureHDLocation = this.gl.getUniformLocation(this.program, 'u_textureHD');
-    this.opacityHDLocation = this.gl.getUniformLocation(this.program, 'u_opacity_texture_hd');
-    this.opacitySDLocation = this.gl.getUniformLocation(this.program, 'u_opacity_texture_sd');
-    this.grayscaleLocation = this.gl.getUniformLocation(this.program, 'u_grayscale');
-    this.backgroundRLocation = this.gl.getUniformLocation(this.program, 'u_r');
-    this.backgroundGLocation = this.gl.getUniformLocation(this.program, 'u_g');
-    this.backgroundBLocation = this.gl.getUniformLocation(this.program, 'u_b');
-
-    // Create position buffer (for vertex positions)
-    this.positionBuffer = this.gl.createBuffer();
-    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.positionBuffer);
-    this.gl.bufferData(
-      this.gl.ARRAY_BUFFER,
-      new Float32Array([0, 0, 0, 1, 1, 0, 1, 0, 0, 1, 1, 1]),
-      this.gl.STATIC_DRAW
-    );
-
-    // Create texcoord buffer (for texture coordinates)
-    this.texcoordBuffer = this.gl.createBuffer();
-    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.texcoordBuffer);
-    const texcoords = [0, 0, 0, 1, 1, 0, 1, 0, 0, 1, 1, 1];
-    this.gl.bufferData(this.gl.ARRAY_BUFFER, new Float32Array(texcoords), this.gl.STATIC_DRAW);
+    // Create program, locations and buffers
+    this.setupGLResources();
 
     // Process images for the grid
     const maxImages = this.COLUMN_ITEM_LENGTH * this.ROW_ITEM_LENGTH;
@@ -364,46 +529,17 @@ export class WebGLGrid {
         textureMediumUrl: img.file.url,
         width: img.file.details.image.width,
         height: img.file.details.image.height,
-        backgroundColor: img.file.color,
+        imageIndex: this.uniqueImages.indexOf(img),
+        videoSource: img.video ?? null,
       });
     });
-
-    // Create texture tracking array
-    const processedSources = [];
+    this.maxTileAspect = selectedImages.reduce(
+      (max, img) => Math.max(max, img.file.details.image.height / img.file.details.image.width),
+      1
+    );
 
     // Create textures for all images
-    this.textures = this.images
-      .map((img) => {
-        const source = this.getImageSource(img);
-        if (!processedSources.includes(source)) {
-          processedSources.push(source);
-          return this.createImageTexture(this.gl, source, img.file.color, () =>
-            this.onTextureSDLoaded()
-          );
-        }
-        return null;
-      })
-      .filter((texture) => texture !== null);
-
-    // Create HD textures where needed
-    this.texturesHD = this.images
-      .map((img) => {
-        if (!this.needHDTexture(img)) return null;
-
-        const source = this.getImageSource(img, true);
-        if (!processedSources.includes(source)) {
-          processedSources.push(source);
-          return this.createImageTexture(
-            this.gl,
-            source,
-            img.file.color,
-            () => this.onTextureHDLoaded(),
-            false
-          );
-        }
-        return null;
-      })
-      .filter((texture) => texture !== null);
+    this.createTextures(() => this.onTextureSDLoaded());
 
     // Set canvas size based on container size
     this.updateCanvasSize(this.gl.canvas as HTMLCanvasElement);
@@ -429,24 +565,309 @@ export class WebGLGrid {
         textureURL: imageInfo.textureMediumUrl,
         textureWidth: imageInfo.width,
         textureHeight: imageInfo.height,
-        backgroundColor: imageInfo.backgroundColor,
+        imageIndex: imageInfo.imageIndex,
+        videoSource: imageInfo.videoSource,
         index: i,
       });
 
       this.imagesGL.push(gridItem);
     }
 
+    // Stack tiles into columns by their real aspect ratio
+    if (this.options.layout === 'masonry') {
+      this.assignMasonryColumns();
+    }
+
     // Set initial grid layout
     this.setSizeItemsDefault();
 
     // Set initial zoom to small value for intro animation
-    this.currentZoom = 0.4;
+    this.currentZoom = this.options.introStartZoom;
     this.applyZoom(this.currentZoom);
 
     // Start rendering
     requestAnimationFrame(() => this.render(0));
   }
 
+  // Create the shader program, look up its locations and create the quad buffers
+  private setupGLResources() {
+    // Enable WebGL features
+    this.gl.enable(this.gl.CULL_FACE);
+    this.gl.cullFace(this.gl.BACK);
+    this.gl.enable(this.gl.BLEND);
+    this.gl.disable(this.gl.DEPTH_TEST);
+    this.gl.blendFunc(this.gl.SRC_ALPHA, this.gl.ONE_MINUS_SRC_ALPHA);
+
+    // Set initial clear color to match site background
+    const { r, g, b } = this.backgroundColor;
+    this.gl.clearColor(r, g, b, 1.0);
+
+    // Create shader program
+    const vertexShader = this.createShader(this.vertexShader, this.gl.VERTEX_SHADER);
+    const fragmentShader = this.createShader(this.fragmentShader, this.gl.FRAGMENT_SHADER);
+    this.program = this.createProgram(vertexShader, fragmentShader);
+
+    // Get attribute and uniform locations
+    this.positionLocation = this.gl.getAttribLocation(this.program, 'a_position');
+    this.texcoordLocation = this.gl.getAttribLocation(this.program, 'a_texcoord');
+    this.matrixLocation = this.gl.getUniformLocation(this.program, 'u_matrix');
+    this.textureMatrixLocation = this.gl.getUniformLocation(this.program, 'u_textureMatrix');
+    this.textureLocation = this.gl.getUniformLocation(this.program, 'u_texture');
+    this.timeLocation = this.gl.getUniformLocation(this.program, 'u_time');
+    this.opacityLocation = this.gl.getUniformLocation(this.program, 'u_opacity');
+    this.textureHDLocation = this.gl.getUniformLocation(this.program, 'u_textureHD');
+    this.opacityHDLocation = this.gl.getUniformLocation(this.program, 'u_opacity_texture_hd');
+    this.opacitySDLocation = this.gl.getUniformLocation(this.program, 'u_opacity_texture_sd');
+    this.grayscaleLocation = this.gl.getUniformLocation(this.program, 'u_grayscale');
+    this.highlightLocation = this.gl.getUniformLocation(this.program, 'u_highlight');
+    this.borderLocation = this.gl.getUniformLocation(this.program, 'u_border');
+    this.backgroundRLocation = this.gl.getUniformLocation(this.program, 'u_r');
+    this.backgroundGLocation = this.gl.getUniformLocation(this.program, 'u_g');
+    this.backgroundBLocation = this.gl.getUniformLocation(this.program, 'u_b');
+    this.backgroundLocation = this.gl.getUniformLocation(this.program, 'u_background');
+    this.placeholderLocation = this.gl.getUniformLocation(this.program, 'u_placeholder');
+    this.opacityPlaceholderLocation = this.gl.getUniformLocation(
+      this.program,
+      'u_opacity_placeholder'
+    );
+
+    // Create position buffer (for vertex positions)
+    this.positionBuffer = this.gl.createBuffer();
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.positionBuffer);
+    this.gl.bufferData(
+      this.gl.ARRAY_BUFFER,
+      new Float32Array([0, 0, 0, 1, 1, 0, 1, 0, 0, 1, 1, 1]),
+      this.gl.STATIC_DRAW
+    );
+
+    // Create texcoord buffer (for texture coordinates)
+    this.texcoordBuffer = this.gl.createBuffer();
+    this.gl.bindBuffer(this.gl.ARRAY_BUFFER, this.texcoordBuffer);
+    const texcoords = [0, 0, 0, 1, 1, 0, 1, 0, 0, 1, 1, 1];
+    this.gl.bufferData(this.gl.ARRAY_BUFFER, new Float32Array(texcoords), this.gl.STATIC_DRAW);
+
+    this.setupInstancing();
+    this.postProcessor = new PostProcessor(this.gl, this.options.effects);
+
+    // Clips restart from their stills after a context loss
+    if (this.videoManager) {
+      this.videoManager.destroy();
+    }
+    this.videoManager = new VideoTextureManager(this.gl, this.options.maxVideoDecoders);
+    this.videoManager.onChange = () => this.invalidate();
+  }
+
+  // Instanced program and buffer; without the extension every tile takes the per-item path
+  private setupInstancing() {
+    const { gl } = this;
+    this.instancing = gl.getExtension('ANGLE_instanced_arrays');
+    if (!this.instancing) return;
+
+    const vertexShader = this.createShader(this.instancedVertexShader, gl.VERTEX_SHADER);
+    const fragmentShader = this.createShader(this.instancedFragmentShader, gl.FRAGMENT_SHADER);
+    const program = this.createProgram(vertexShader, fragmentShader);
+
+    this.instancedProgram = program;
+    this.instancedLocations = {
+      position: gl.getAttribLocation(program, 'a_position'),
+      rect: gl.getAttribLocation(program, 'a_rect'),
+      uv: gl.getAttribLocation(program, 'a_uv'),
+      state: gl.getAttribLocation(program, 'a_state'),
+      color: gl.getAttribLocation(program, 'a_color'),
+      placeholderUv: gl.getAttribLocation(program, 'a_placeholderUv'),
+      resolution: gl.getUniformLocation(program, 'u_resolution'),
+      borderWidth: gl.getUniformLocation(program, 'u_borderWidth'),
+      atlas: gl.getUniformLocation(program, 'u_atlas'),
+      placeholders: gl.getUniformLocation(program, 'u_placeholders'),
+      grayscale: gl.getUniformLocation(program, 'u_grayscale'),
+      background: gl.getUniformLocation(program, 'u_background'),
+    };
+    this.instanceBuffer = gl.createBuffer();
+  }
+
+  // Create SD and HD textures for every unique image source
+  private createTextures(onSDLoaded: () => void) {
+    // Textures are about to be replaced, so stop tracking the old HD ones
+    this.textureManager.clear();
+
+    // Atlas of every SD image for instanced drawing
+    if (this.atlas) {
+      this.atlas.destroy();
+      this.atlas = null;
+    }
+    if (this.instancedProgram) {
+      this.atlas = new TextureAtlas(
+        this.gl,
+        this.uniqueImages.map((img) => this.getImageSource(img)),
+        this.ATLAS_CELL_SIZE,
+        this.isMobile ? 2048 : 4096
+      );
+    }
+    if (this.placeholderAtlas) {
+      this.placeholderAtlas.destroy();
+      this.placeholderAtlas = null;
+    }
+    if (this.instancedProgram) {
+      this.placeholderAtlas = new TextureAtlas(
+        this.gl,
+        this.uniqueImages.map((img) => this.getImageSource(img)),
+        this.PLACEHOLDER_SIZE,
+        2048
+      );
+    }
+
+    // Create textures for all images in the layout
+    this.textures = [];
+    this.texturesHD = [];
+    this.addTextures(this.images, onSDLoaded);
+  }
+
+  // Create SD and HD textures for the images that don't have them yet
+  private addTextures(
+    images: CMSImage[],
+    onSDLoaded: (texture: { fadeTextureIn(): void }) => void
+  ) {
+    const processedSources: string[] = this.textures.map((texture) => texture.source);
+
+    images.forEach((img) => {
+      const source = this.getImageSource(img);
+      if (processedSources.includes(source)) return;
+      processedSources.push(source);
+
+      const texture = this.createImageTexture(this.gl, source, img.file.color, (image) => {
+        if (this.atlas) {
+          this.atlas.add(source, image);
+        }
+        onSDLoaded(texture);
+        this.invalidate();
+      });
+      this.loadPlaceholder(texture, img);
+      this.textures.push(texture);
+    });
+
+    // Create HD textures where needed
+    processedSources.push(...this.texturesHD.map((texture) => texture.source));
+    images.forEach((img) => {
+      if (!this.needHDTexture(img)) return;
+
+      const source = this.getImageSource(img, true);
+      if (processedSources.includes(source)) return;
+      processedSources.push(source);
+
+      this.texturesHD.push(
+        this.createImageTexture(
+          this.gl,
+          source,
+          img.file.color,
+          () => this.onTextureHDLoaded(),
+          false
+        )
+      );
+    });
+  }
+
+  // Show the CMS placeholder (BlurHash or inline LQIP) until the SD image fades in over it
+  private loadPlaceholder(
+    texture: { source: string; setPlaceholder(image: HTMLCanvasElement | HTMLImageElement): void },
+    img: { blurhash?: string | null; lqip?: string | null }
+  ) {
+    const show = (placeholder: HTMLCanvasElement | HTMLImageElement) => {
+      if (this.isDestroyed || this.isContextLost) return;
+
+      texture.setPlaceholder(placeholder);
+      if (this.placeholderAtlas) {
+        this.placeholderAtlas.add(texture.source, placeholder);
+      }
+      this.invalidate();
+    };
+
+    if (img.blurhash) {
+      const size = this.PLACEHOLDER_SIZE;
+      const canvas = document.createElement('canvas');
+      canvas.width = size;
+      canvas.height = size;
+      const context = canvas.getContext('2d');
+      if (!context) return;
+
+      const pixels = context.createImageData(size, size);
+      pixels.data.set(decodeBlurhash(img.blurhash, size, size));
+      context.putImageData(pixels, 0, 0);
+      show(canvas);
+    } else if (img.lqip) {
+      const image = new Image();
+      image.addEventListener('load', () => show(image));
+      image.src = img.lqip;
+    }
+  }
+
+  // Context lost: stop drawing until the browser hands the context back
+  private handleContextLost = (e: Event) => {
+    // Required for the browser to fire webglcontextrestored
+    e.preventDefault();
+    if (this.isDestroyed) return;
+
+    this.isContextLost = true;
+    this.heldKeys.clear();
+
+    if (this.onContextLost) {
+      this.onContextLost();
+    }
+  };
+
+  // Context restored: rebuild every GL resource while keeping pan and zoom untouched
+  private handleContextRestored = () => {
+    if (this.isDestroyed) return;
+
+    const previousTextures = this.textures;
+
+    this.fixCanvasSize();
+    this.setupGLResources();
+
+    // Loads still on their way belong to the lost context, so they must not count or upload
+    previousTextures.forEach((texture) => {
+      texture.generation += 1;
+    });
+
+    // Recreate textures from the images list; reloads come from the browser cache. Before the
+    // intro has its SD images, count the new loads from zero so it still starts.
+    if (this.texturesLoaded) {
+      this.createTextures(() => {});
+    } else {
+      this.indexTextureSD = 0;
+      this.createTextures(() => this.onTextureSDLoaded());
+    }
+    this.textures.forEach((texture) => {
+      const previous = previousTextures.find((tex) => tex.source === texture.source);
+      if (previous) {
+        texture.opacity = previous.opacity;
+      }
+    });
+    // HD textures stream back in as the visible tiles request them
+
+    // Point every grid item at the new program, buffers and textures
+    this.imagesGL.forEach((item) => {
+      const sourceHD = item.textureHD ? item.textureHD.source : null;
+      Object.assign(item, this.getItemGLState(), {
+        texture: this.textures.find((tex) => tex.source === item.source),
+        textureHD: sourceHD ? this.texturesHD.find((tex) => tex.source === sourceHD) : null,
+      });
+      item.textureObject.textureHDInfo = this.createEmptyTexture(this.gl);
+
+      // A tile whose source no longer has a texture would throw in draw(), so re-key it
+      const image = this.uniqueImages[item.imageIndex];
+      if (!item.texture && image) {
+        this.setItemImage(item, image);
+      }
+    });
+
+    this.isContextLost = false;
+    this.setWindow();
+
+    if (this.onContextRestored) {
+      this.onContextRestored();
+    }
+  };
+
   // Modified onTextureSDLoaded to respect delayed intro and NOT fade in textures yet
   private onTextureSDLoaded() {
     this.indexTextureSD++;
@@ -496,7 +917,8 @@ export class WebGLGrid {
 
   // Handler for HD texture loading
   private onTextureHDLoaded() {
-    // HD textures are loaded on demand
+    // HD textures are loaded on demand, so redraw once one arrives
+    this.invalidate();
   }
 
   // Create image texture
@@ -504,9 +926,14 @@ export class WebGLGrid {
     gl: WebGLRenderingContext,
     source: string,
     backgroundColor: string,
-    callback: () => void,
+    callback: (image: DecodedImage) => void,
     loadImmediately = true
   ) {
+    const { uploadQueue } = this;
+    const invalidate = () => this.invalidate();
+    // The same session already loaded these, so take them from the browser cache when it can
+    const cache: RequestCache = this.isResuming ? 'force-cache' : 'default';
+
     // Create texture handler object
     const textureObj = {
       gl,
@@ -521,6 +948,9 @@ export class WebGLGrid {
       b: 0,
       isInit: false,
       isLoaded: false,
+      generation: 0,
+      placeholder: null as WebGLTexture | null,
+      placeholderOpacity: 0,
       callbackLoaded: callback,
 
       // Create initial texture
@@ -534,7 +964,7 @@ export class WebGLGrid {
         this.g = g / 255;
         this.b = b / 255;
 
-        // Create 1x1 pixel texture initially
+        // Create 1x1 pixel texture in the tile colour initially
         gl.texImage2D(
           gl.TEXTURE_2D,
           0,
@@ -544,7 +974,7 @@ export class WebGLGrid {
           0,
           gl.RGBA,
           gl.UNSIGNED_BYTE,
-          new Uint8Array([0, 0, 255, 255])
+          new Uint8Array([r, g, b, 255])
         );
 
         // Set texture parameters
@@ -560,7 +990,7 @@ export class WebGLGrid {
       },
 
       // Update texture with loaded image
-      updateTexture(image: HTMLImageElement) {
+      updateTexture(image: DecodedImage) {
         this.width = image.width;
         this.height = image.height;
         this.isLoaded = true;
@@ -569,33 +999,87 @@ export class WebGLGrid {
         gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, image);
       },
 
+      // Upload a tiny placeholder image, drawn under the SD texture until it fades in
+      setPlaceholder(image: HTMLCanvasElement | HTMLImageElement) {
+        if (!this.placeholder) {
+          this.placeholder = gl.createTexture();
+        }
+
+        gl.bindTexture(gl.TEXTURE_2D, this.placeholder);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, image);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+        this.placeholderOpacity = 1;
+      },
+
       // Fade in texture
-      fadeTextureIn() {
+      fadeTextureIn(delay = 0.2 * Math.random() + 0.1) {
         gsap.to(this, {
           duration: 0.5,
           opacity: 1,
           ease: 'power2.out',
-          delay: 0.2 * Math.random() + 0.1,
+          delay,
         });
       },
 
       // Load texture from source
       load() {
         if (this.isInit) return Promise.resolve();
-
-        return new Promise<void>((resolve) => {
-          const img = new Image();
-          img.crossOrigin = '';
-
-          img.addEventListener('load', () => {
-            this.updateTexture(img);
-            this.callbackLoaded();
-            resolve();
+        this.isInit = true;
+
+        // An unload while the image is on its way makes this load stale
+        const { generation } = this;
+
+        // Decode off the main thread, then upload when the frame budget allows
+        return loadDecodedImage(source, cache)
+          .then(
+            (image) =>
+              new Promise<void>((resolve) => {
+                uploadQueue.add(image.width * image.height, () => {
+                  if (generation === this.generation) {
+                    this.updateTexture(image);
+                    this.callbackLoaded(image);
+                  }
+                  releaseDecodedImage(image);
+                  resolve();
+                });
+                invalidate();
+              })
+          )
+          .catch(() => {
+            // Let a later visibility pass try again, unless an unload already reset it
+            if (generation === this.generation) {
+              this.isInit = false;
+            }
           });
+      },
 
-          img.decoding = 'async';
-          img.src = source;
-        });
+      // Release the image data, going back to the 1x1 pixel in the tile colour
+      unload() {
+        gsap.killTweensOf(this);
+        this.generation += 1;
+        this.isInit = false;
+        this.isLoaded = false;
+        this.opacity = 0;
+        this.width = 1;
+        this.height = 1;
+
+        if (this.texture) {
+          const { r, g, b } = this.hexToRgb(backgroundColor);
+          gl.bindTexture(gl.TEXTURE_2D, this.texture);
+          gl.texImage2D(
+            gl.TEXTURE_2D,
+            0,
+            gl.RGBA,
+            1,
+            1,
+            0,
+            gl.RGBA,
+            gl.UNSIGNED_BYTE,
+            new Uint8Array([r, g, b, 255])
+          );
+        }
       },
 
       // Parse hex color
@@ -618,6 +1102,10 @@ export class WebGLGrid {
             this.texture = null;
           } catch (e) {}
         }
+        if (this.placeholder) {
+          gl.deleteTexture(this.placeholder);
+          this.placeholder = null;
+        }
       },
     };
 
@@ -627,45 +1115,39 @@ export class WebGLGrid {
     // Load if requested
     if (loadImmediately) {
       textureObj.load();
-      textureObj.isInit = true;
     }
 
     return textureObj;
   }
 
-  // Create a grid item
-  private createGridItem(gl: WebGLRenderingContext, options: any) {
-    const { texture, textureHD, source, textureWidth, textureHeight, backgroundColor, index } =
-      options;
-
-    // Create empty texture
-    const createEmptyTexture = () => {
-      const texture = gl.createTexture();
-      gl.bindTexture(gl.TEXTURE_2D, texture);
-      gl.texImage2D(
-        gl.TEXTURE_2D,
-        0,
-        gl.RGBA,
-        1,
-        1,
-        0,
-        gl.RGBA,
-        gl.UNSIGNED_BYTE,
-        new Uint8Array([0, 0, 255, 255])
-      );
-      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
-      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
-      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
-      return {
-        width: 1,
-        height: 1,
-        texture,
-      };
+  // Create a 1x1 transparent texture for an empty HD slot
+  private createEmptyTexture(gl: WebGLRenderingContext) {
+    const texture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(
+      gl.TEXTURE_2D,
+      0,
+      gl.RGBA,
+      1,
+      1,
+      0,
+      gl.RGBA,
+      gl.UNSIGNED_BYTE,
+      new Uint8Array([0, 0, 0, 0])
+    );
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    return {
+      width: 1,
+      height: 1,
+      texture,
     };
+  }
 
-    // Create object to manage grid item
-    const item = {
-      gl,
+  // Program, buffers and locations shared by every grid item
+  private getItemGLState() {
+    return {
       program: this.program,
       positionBuffer: this.positionBuffer,
       texcoordBuffer: this.texcoordBuffer,
@@ -681,17 +1163,50 @@ export class WebGLGrid {
       backgroundGLocation: this.backgroundGLocation,
       backgroundBLocation: this.backgroundBLocation,
       opacityHDLocation: this.opacityHDLocation,
+      highlightLocation: this.highlightLocation,
+      borderLocation: this.borderLocation,
+      placeholderLocation: this.placeholderLocation,
+      opacityPlaceholderLocation: this.opacityPlaceholderLocation,
+    };
+  }
+
+  // Create a grid item
+  private createGridItem(gl: WebGLRenderingContext, options: any) {
+    const {
+      texture,
+      textureHD,
+      source,
+      textureWidth,
+      textureHeight,
+      imageIndex,
+      videoSource,
+      index,
+    } = options;
+
+    // Create object to manage grid item
+    const item = {
+      gl,
+      ...this.getItemGLState(),
+      borderWidth: 3 * this.pixelRatio,
       index,
+      imageIndex,
       source,
       textureWidth,
       textureHeight,
       texture,
       textureHD,
+      videoSource, // Looping clip shown over the image while the tile is on screen
+      video: null as VideoTexture | null, // Its playing texture, set by the grid before each draw
       r: 0,
       g: 0,
       b: 0,
       isPaused: false,
       isVisible: false,
+      isFocused: false,
+      filterOpacity: 1, // Faded to 0 while the event filter swaps the tile's image
+      masonryColumn: 0, // Place in the masonry layout, set by assignMasonryColumns
+      masonryRow: 0,
+      masonryAspectBefore: 0, // Heights of the tiles above, in item widths
       bounds: {
         left: 0,
         top: 0,
@@ -711,7 +1226,7 @@ export class WebGLGrid {
         height: 1,
         displayWidth: 1,
         displayHeight: 1,
-        textureHDInfo: createEmptyTexture(),
+        textureHDInfo: this.createEmptyTexture(gl),
         opacity: 1,
         opacityHD: 0,
         opacitySD: 0,
@@ -762,68 +1277,62 @@ export class WebGLGrid {
         this.itemHeight = itemHeight;
       },
 
-      // FIX: Update position with proper wrapping logic
+      // Update position, wrapping by exactly one grid size so a pan offset always
+      // maps to the same view
       update(delta: { x: number; y: number }) {
         // Apply position delta
         this.textureObject.x += delta.x;
         this.textureObject.y += delta.y;
 
-        // Wrap around horizontally - FIXED LOGIC
-        if (this.textureObject.x <= this.bounds.left) {
-          const offset = this.bounds.left - this.textureObject.x;
-          this.textureObject.x = this.bounds.right - offset - this.itemWidth;
+        // Wrap around horizontally
+        if (this.textureObject.x < this.bounds.left) {
+          this.textureObject.x += this.bounds.right - this.bounds.left;
         } else if (this.textureObject.x >= this.bounds.right) {
-          const offset = this.bounds.right - this.textureObject.x; // Notice sign change
-          this.textureObject.x = this.bounds.left - offset + this.itemWidth; // Added itemWidth
+          this.textureObject.x -= this.bounds.right - this.bounds.left;
         }
 
-        // Wrap around vertically - FIXED LOGIC
-        if (this.textureObject.y <= this.bounds.top) {
-          const offset = this.bounds.top - this.textureObject.y;
-          this.textureObject.y = this.bounds.bottom - offset - this.itemHeight;
+        // Wrap around vertically
+        if (this.textureObject.y < this.bounds.top) {
+          this.textureObject.y += this.bounds.bottom - this.bounds.top;
         } else if (this.textureObject.y >= this.bounds.bottom) {
-          const offset = this.bounds.bottom - this.textureObject.y; // Notice sign change
-          this.textureObject.y = this.bounds.top - offset + this.itemHeight; // Added itemHeight
+          this.textureObject.y -= this.bounds.bottom - this.bounds.top;
         }
       },
 
+      // Check if the tile overlaps the viewport
+      updateVisibility() {
+        const obj = this.textureObject;
+        this.isVisible = !(
+          obj.x >= this.sceneDimensions.width ||
+          obj.x + obj.displayWidth <= 0 ||
+          obj.y >= this.sceneDimensions.height ||
+          obj.y + obj.displayHeight <= 0
+        );
+        return this.isVisible;
+      },
+
       // Draw the item
       draw() {
         const obj = this.textureObject;
-        const { x } = obj;
-        const { y } = obj;
+        const x = obj.x + obj.dx;
+        const y = obj.y + obj.dy;
         const width = obj.displayWidth;
         const height = obj.displayHeight;
 
-        // Check if visible in viewport
-        const viewport = {
-          x1: 0,
-          y1: 0,
-          x2: this.sceneDimensions.width,
-          y2: this.sceneDimensions.height,
-        };
-
-        // Check if this item is visible
-        this.isVisible = this.overlaps(viewport, {
-          x1: x,
-          y1: y,
-          x2: x + width,
-          y2: y + height,
-        });
-
-        // Only draw if visible
-        if (this.isVisible) {
+        // Only draw if visible; a playing clip takes the place of the HD texture
+        if (this.updateVisibility()) {
+          const overlay = this.video || this.textureHD;
           this.drawImage(
             this.texture.texture,
-            this.textureHD ? this.textureHD.texture : this.texture.textureHDInfo,
+            overlay ? overlay.texture : this.texture.textureHDInfo,
             this.texture.width,
             this.texture.height,
             x,
             y,
             width,
             height,
-            obj.opacity,
-            this.textureHD ? this.textureHD.opacity : 0,
+            obj.opacity * this.filterOpacity,
+            overlay ? overlay.opacity : 0,
             this.texture.opacity
           );
         }
@@ -850,6 +1359,9 @@ export class WebGLGrid {
         gl.bindTexture(gl.TEXTURE_2D, texture);
         gl.activeTexture(gl.TEXTURE1);
         gl.bindTexture(gl.TEXTURE_2D, textureHD);
+        gl.activeTexture(gl.TEXTURE2);
+        gl.bindTexture(gl.TEXTURE_2D, this.texture.placeholder || texture);
+        gl.activeTexture(gl.TEXTURE0);
 
         gl.useProgram(this.program);
 
@@ -944,6 +1456,10 @@ export class WebGLGrid {
         gl.uniform1f(this.opacityLocation, opacity);
         gl.uniform1f(this.opacityHDLocation, opacityHD);
         gl.uniform1f(this.opacitySDLocation, opacitySD);
+        gl.uniform1i(this.placeholderLocation, 2);
+        gl.uniform1f(this.opacityPlaceholderLocation, this.texture.placeholderOpacity);
+        gl.uniform1f(this.highlightLocation, this.isFocused ? 1 : 0);
+        gl.uniform2f(this.borderLocation, this.borderWidth / width, this.borderWidth / height);
         gl.uniform1f(this.backgroundRLocation, this.texture.r);
         gl.uniform1f(this.backgroundGLocation, this.texture.g);
         gl.uniform1f(this.backgroundBLocation, this.texture.b);
@@ -952,6 +1468,17 @@ export class WebGLGrid {
         gl.drawArrays(gl.TRIANGLES, 0, 6);
       },
 
+      // Check if a canvas-space point lies within the drawn tile
+      containsPoint(px: number, py: number) {
+        const obj = this.textureObject;
+        return (
+          px >= obj.x &&
+          px <= obj.x + obj.displayWidth &&
+          py >= obj.y &&
+          py <= obj.y + obj.displayHeight
+        );
+      },
+
       // Check if rectangles overlap
       overlaps(rectA: any, rectB: any) {
         return !(
@@ -978,6 +1505,11 @@ export class WebGLGrid {
 
   // Set default size and positions of all items with fixed centering
   private setSizeItemsDefault() {
+    if (this.options.layout === 'masonry') {
+      this.layoutMasonry();
+      return;
+    }
+
     let row = -1;
     let x = 0;
     let y = 0;
@@ -1020,6 +1552,83 @@ export class WebGLGrid {
     this.anchorCenterTop = this.windowSize.height / 32;
   }
 
+  // Put each tile at the bottom of the currently shortest column, so columns stay level.
+  // Like createGridLayout, a tile never lands under its own image or beside it at the
+  // bottom of a neighbouring column while other tiles are left to choose from.
+  private assignMasonryColumns() {
+    const columnCount = this.COLUMN_ITEM_LENGTH;
+    const aspects: number[] = new Array(columnCount).fill(0);
+    this.masonryColumns = aspects.map(() => []);
+
+    const getTail = (column: number) => {
+      const items = this.masonryColumns[(column + columnCount) % columnCount];
+      return items[items.length - 1];
+    };
+
+    const pending = [...this.imagesGL];
+    while (pending.length > 0) {
+      const column = aspects.indexOf(Math.min(...aspects));
+      const neighbours = new Set(
+        [column - 1, column, column + 1].map((neighbour) => getTail(neighbour)?.source)
+      );
+
+      // Too few distinct images left to avoid every neighbour
+      let pick = pending.findIndex((candidate) => !neighbours.has(candidate.source));
+      if (pick === -1) pick = 0;
+
+      const [item] = pending.splice(pick, 1);
+      item.masonryColumn = column;
+      item.masonryRow = this.masonryColumns[column].length;
+      item.masonryAspectBefore = aspects[column];
+
+      aspects[column] += item.textureHeight / item.textureWidth;
+      this.masonryColumns[column].push(item);
+    }
+
+    this.masonryColumnAspects = aspects;
+  }
+
+  // Place every masonry tile from the pan offset. Columns wrap by their own height, so
+  // each one is an endless strip and a pan offset always maps to the same view.
+  private layoutMasonry() {
+    const columnCount = this.masonryColumns.length;
+    if (columnCount === 0) return;
+
+    const cellWidth = this.ITEM_WIDTH + this.HORIZONTAL_GAP;
+    const periodX = columnCount * cellWidth;
+    const tallest = this.ITEM_WIDTH * this.maxTileAspect;
+    const columnHeights = this.masonryColumns.map(
+      (column, index) =>
+        this.ITEM_WIDTH * this.masonryColumnAspects[index] + column.length * this.VERTICAL_GAP
+    );
+    const averageHeight = columnHeights.reduce((sum, height) => sum + height, 0) / columnCount;
+
+    // Center the layout in the window, then apply the pan at the current zoom
+    const originX =
+      (this.windowSize.width - periodX + this.HORIZONTAL_GAP) / 2 +
+      this.panOffset.x * this.currentZoom;
+    const originY =
+      (this.windowSize.height - averageHeight + this.VERTICAL_GAP) / 2 +
+      this.panOffset.y * this.currentZoom;
+
+    // Wrap into one period starting just above/left of the window, so the window is covered
+    const wrap = (value: number, start: number, period: number) =>
+      start + ((((value - start) % period) + period) % period);
+
+    this.masonryColumns.forEach((column, index) => {
+      const x = wrap(originX + index * cellWidth, -cellWidth, periodX);
+      const periodY = columnHeights[index];
+
+      column.forEach((item) => {
+        const y =
+          originY +
+          this.ITEM_WIDTH * item.masonryAspectBefore +
+          item.masonryRow * this.VERTICAL_GAP;
+        item.updateSize(x, wrap(y, -tallest, periodY), this.ITEM_WIDTH);
+      });
+    });
+  }
+
   // Get total dimensions of all items
   private getTotalDimensionsItems() {
     let minX,
@@ -1110,8 +1719,8 @@ export class WebGLGrid {
   // FIX: Improved update method with better lerping
   private update() {
     // Apply smooth lerping to scroll with improved precision
-    this.lerpedScroll.x = this.lerp(this.lerpedScroll.x, this.scroll.x, 0.12);
-    this.lerpedScroll.y = this.lerp(this.lerpedScroll.y, this.scroll.y, 0.12);
+    this.lerpedScroll.x = this.lerp(this.lerpedScroll.x, this.scroll.x, this.options.scrollLerp);
+    this.lerpedScroll.y = this.lerp(this.lerpedScroll.y, this.scroll.y, this.options.scrollLerp);
 
     const deltaScrollX = this.lerpedScroll.x - this.prevLerpedScroll.x;
     const deltaScrollY = this.lerpedScroll.y - this.prevLerpedScroll.y;
@@ -1121,8 +1730,8 @@ export class WebGLGrid {
 
     if (this.isDragging) {
       // Apply smooth lerping to mouse movement with improved precision
-      this.lerpedMouse.x = this.lerp(this.lerpedMouse.x, this.mouse.x, 0.075);
-      this.lerpedMouse.y = this.lerp(this.lerpedMouse.y, this.mouse.y, 0.075);
+      this.lerpedMouse.x = this.lerp(this.lerpedMouse.x, this.mouse.x, this.options.dragLerp);
+      this.lerpedMouse.y = this.lerp(this.lerpedMouse.y, this.mouse.y, this.options.dragLerp);
 
       const deltaMouseX = this.lerpedMouse.x - this.prevLerpedMouse.x;
       const deltaMouseY = this.lerpedMouse.y - this.prevLerpedMouse.y;
@@ -1134,31 +1743,349 @@ export class WebGLGrid {
       this.velocity.y = deltaMouseY;
 
       // Apply combined delta to grid items
-      const delta = {
+      this.translate({
         x: deltaScrollX + deltaMouseX,
         y: deltaScrollY + deltaMouseY,
-      };
-
-      this.imagesGL.forEach((item) => item.update(delta));
+      });
+      this.updateEffectVelocity(deltaScrollX + deltaMouseX, deltaScrollY + deltaMouseY);
     } else {
-      // Apply momentum with friction
-      this.velocity.x *= 0.95;
-      this.velocity.y *= 0.95;
+      // Held keys accelerate the view, then share the same momentum
+      this.applyKeyboardPan();
 
-      const delta = {
+      // Apply momentum with friction, settling to zero so the render loop can idle
+      this.velocity.x *= this.options.friction;
+      this.velocity.y *= this.options.friction;
+      if (Math.abs(this.velocity.x) < 0.01) this.velocity.x = 0;
+      if (Math.abs(this.velocity.y) < 0.01) this.velocity.y = 0;
+
+      this.translate({
         x: deltaScrollX + this.velocity.x,
         y: deltaScrollY + this.velocity.y,
-      };
+      });
+      this.updateEffectVelocity(deltaScrollX + this.velocity.x, deltaScrollY + this.velocity.y);
+    }
+  }
+
+  // Ease the effects' velocity towards this frame's pan so they swell and settle smoothly
+  private updateEffectVelocity(x: number, y: number) {
+    if (!this.postProcessor?.usesVelocity) return;
+
+    this.effectVelocity.x = this.lerp(this.effectVelocity.x, x, 0.2);
+    this.effectVelocity.y = this.lerp(this.effectVelocity.y, y, 0.2);
+    if (Math.abs(this.effectVelocity.x) < 0.05) this.effectVelocity.x = 0;
+    if (Math.abs(this.effectVelocity.y) < 0.05) this.effectVelocity.y = 0;
+  }
+
+  // Move every grid item by a canvas-pixel delta, tracking the overall pan
+  private translate(delta: { x: number; y: number }) {
+    if (delta.x === 0 && delta.y === 0) return;
+    if (this.isIntroShown) this.hasPanned = true;
+
+    this.panOffset.x += delta.x / this.currentZoom;
+    this.panOffset.y += delta.y / this.currentZoom;
+
+    if (this.options.layout === 'masonry') {
+      this.layoutMasonry();
+      this.notifyCameraChange();
+      return;
+    }
+
+    // Split large moves so wrapping never skips past a whole cell
+    const cellWidth = this.ITEM_WIDTH + this.HORIZONTAL_GAP;
+    const cellHeight = this.ITEM_HEIGHT + this.VERTICAL_GAP;
+    const steps = Math.max(
+      1,
+      Math.ceil(Math.abs(delta.x) / cellWidth),
+      Math.ceil(Math.abs(delta.y) / cellHeight)
+    );
+    const step = { x: delta.x / steps, y: delta.y / steps };
+
+    for (let i = 0; i < steps; i += 1) {
+      this.imagesGL.forEach((item) => item.update(step));
+    }
+
+    this.notifyCameraChange();
+  }
 
-      this.imagesGL.forEach((item) => item.update(delta));
+  // Let the view know the camera moved, once the user is in control of it
+  private notifyCameraChange() {
+    if (this.isIntroShown && this.onCameraChange) {
+      this.onCameraChange();
     }
   }
 
+  // Seed the layout was shuffled with; pass it back in to reproduce the same grid
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  // Current view as pan (CSS pixels at zoom 1, wrapped to one grid repeat), zoom and seed
+  public getCameraState(): CameraState {
+    const periodX =
+      this.COLUMN_ITEM_LENGTH * (this.ORIGINAL_ITEM_WIDTH + this.ORIGINAL_HORIZONTAL_GAP);
+    const periodY = this.ROW_ITEM_LENGTH * (this.ORIGINAL_ITEM_HEIGHT + this.ORIGINAL_VERTICAL_GAP);
+    const wrap = (value: number, period: number) =>
+      ((((value + period / 2) % period) + period) % period) - period / 2;
+
+    // Masonry columns repeat at different heights, so there is no shared vertical period
+    const y =
+      this.options.layout === 'masonry' ? this.panOffset.y : wrap(this.panOffset.y, periodY);
+
+    return {
+      x: wrap(this.panOffset.x, periodX) / this.pixelRatio,
+      y: y / this.pixelRatio,
+      zoom: this.currentZoom,
+      seed: this.seed,
+    };
+  }
+
+  // Glide and zoom until a tile showing the image sits in the middle of the view. The target
+  // is an index into the shuffled images, as tile events report it, or an image URL.
+  // Returns false when no tile shows the image, e.g. while a filter hides it.
+  public flyTo(target: number | string, options: CameraMoveOptions = {}): boolean {
+    if (!this.isIntroShown) return false;
+
+    const index = typeof target === 'number' ? target : this.findImageIndex(target);
+    let nearest: GridTile | null = null;
+    let nearestDistance = Infinity;
+    for (const item of this.imagesGL) {
+      if (item.imageIndex !== index) continue;
+
+      const distance = this.getDistanceToCenter(item);
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = item;
+      }
+    }
+    if (!nearest) return false;
+
+    // Offsets from the view center scale with zoom, so move the pan in zoom-independent units
+    const obj = nearest.textureObject;
+    const offsetX = obj.x + obj.displayWidth / 2 - this.windowSize.width / 2;
+    const offsetY = obj.y + obj.displayHeight / 2 - this.windowSize.height / 2;
+    this.animateCamera(
+      {
+        x: this.panOffset.x - offsetX / this.currentZoom,
+        y: this.panOffset.y - offsetY / this.currentZoom,
+        zoom: this.clampZoom(options.zoom ?? this.currentZoom),
+      },
+      options.duration
+    );
+    return true;
+  }
+
+  // Move the content like a drag of dx, dy CSS pixels
+  public panBy(dx: number, dy: number, options: CameraMoveOptions = {}) {
+    if (!this.isIntroShown) return;
+
+    this.animateCamera(
+      {
+        x: this.panOffset.x + (dx * this.pixelRatio) / this.currentZoom,
+        y: this.panOffset.y + (dy * this.pixelRatio) / this.currentZoom,
+        zoom: this.currentZoom,
+      },
+      options.duration
+    );
+  }
+
+  // Zoom to a level, keeping the focal point (client CSS pixels) in place; defaults to the center
+  public setZoom(zoom: number, focal?: { x: number; y: number }, options: CameraMoveOptions = {}) {
+    if (!this.isIntroShown) return;
+
+    const targetZoom = this.clampZoom(zoom);
+    const focalPoint = focal ? this.toCanvasPoint(focal.x, focal.y) : undefined;
+    const duration = options.duration ?? 0.6;
+
+    this.invalidate();
+    this.stopZoomTween();
+    if (duration <= 0) {
+      this.applyZoom(targetZoom, focalPoint);
+      return;
+    }
+
+    const t = { zoom: this.currentZoom };
+    this.zoomTween = gsap.to(t, {
+      zoom: targetZoom,
+      duration,
+      ease: 'power2.inOut',
+      onUpdate: () => {
+        this.applyZoom(t.zoom, focalPoint);
+      },
+      onComplete: () => {
+        this.zoomTween = null;
+      },
+    });
+  }
+
+  // Index of the image with this URL, in its original, SD or HD form
+  private findImageIndex(url: string): number {
+    return this.uniqueImages.findIndex(
+      (image) =>
+        image.file.url === url ||
+        this.getImageSource(image, false) === url ||
+        this.getImageSource(image, true) === url
+    );
+  }
+
+  // Emit panend once the pan has rested for a frame; a held drag isn't resting
+  private checkPanEnd() {
+    if (this.hasPanned) {
+      this.hasPanned = false;
+      this.isPanning = true;
+      return;
+    }
+
+    if (this.isPanning && !this.isDragging && !this.isPinching) {
+      this.isPanning = false;
+      this.events.emit('panend', this.getCameraState());
+    }
+  }
+
+  // Only show tiles of one event, or every image for null. Tiles of other events fade out,
+  // the grid refills from the event's images around the tiles that already match, and the
+  // new tiles fade in outwards from the center of the view.
+  public setFilter(eventId: string | null) {
+    if (eventId === this.filterEventId) return;
+    this.filterEventId = eventId;
+
+    const hasImages = eventId && this.uniqueImages.some((img) => img.eventId === eventId);
+    const layout = hasImages
+      ? createEventLayout(
+          this.uniqueImages,
+          this.images,
+          eventId,
+          this.COLUMN_ITEM_LENGTH,
+          this.ROW_ITEM_LENGTH,
+          createRandom(this.seed)
+        )
+      : this.layoutImages;
+
+    // Not built yet, so main() starts from the filtered layout
+    if (this.imagesGL.length === 0) {
+      this.images = layout;
+      return;
+    }
+
+    this.stopFilterTween();
+    const changed = this.imagesGL.filter((item) => this.images[item.index] !== layout[item.index]);
+
+    // Images new to the grid load now. While the SD images are still coming in they count
+    // towards starting the intro, which fades them all in; later ones fade in on arrival.
+    const isCounted = !this.texturesLoaded;
+    this.addTextures(layout, (texture) => {
+      if (isCounted) {
+        this.onTextureSDLoaded();
+      } else if (this.TLIntro !== undefined) {
+        texture.fadeTextureIn();
+      }
+    });
+
+    // Before the intro has finished there is nothing to animate
+    if (!this.isIntroShown) {
+      this.reflowFilteredItems(changed, layout);
+      this.imagesGL.forEach((item) => {
+        item.filterOpacity = 1;
+      });
+      return;
+    }
+
+    this.invalidate();
+    this.filterTween = gsap.to(this.imagesGL, {
+      filterOpacity: (_index: number, item: GridTile) => (changed.includes(item) ? 0 : 1),
+      duration: 0.4,
+      ease: 'power2.in',
+      onComplete: () => {
+        this.reflowFilteredItems(changed, layout);
+
+        const maxDistance = Math.hypot(this.windowSize.width, this.windowSize.height) / 2;
+        this.filterTween = gsap.to(changed, {
+          filterOpacity: 1,
+          duration: 0.6,
+          ease: 'power2.out',
+          stagger: (_index: number, item: GridTile) =>
+            0.5 * Math.min(1, this.getDistanceToCenter(item) / maxDistance),
+          onComplete: () => {
+            this.filterTween = null;
+          },
+        });
+      },
+    });
+  }
+
+  // Swap the images of the changed tiles and lay the grid out again. Matching tiles that
+  // move to a new spot, as in masonry columns, slide there from where they were.
+  private reflowFilteredItems(changed: GridTile[], layout: CMSImage[]) {
+    const previous = new Map(
+      this.imagesGL.map((item) => [item, { x: item.textureObject.x, y: item.textureObject.y }])
+    );
+
+    changed.forEach((item) => this.setItemImage(item, layout[item.index]));
+    this.images = layout;
+    this.maxTileAspect = this.imagesGL.reduce(
+      (max, item) => Math.max(max, item.textureHeight / item.textureWidth),
+      1
+    );
+
+    if (this.options.layout === 'masonry') {
+      this.assignMasonryColumns();
+    }
+    this.applyZoom(this.currentZoom);
+
+    if (!this.isIntroShown) return;
+
+    const { width, height } = this.windowSize;
+    this.imagesGL.forEach((item) => {
+      if (changed.includes(item)) return;
+
+      const obj = item.textureObject;
+      const from = previous.get(item);
+      if (!from) return;
+
+      const dx = from.x - obj.x;
+      const dy = from.y - obj.y;
+
+      // Skip tiles that wrapped around the grid rather than moved
+      if ((dx === 0 && dy === 0) || Math.abs(dx) > width || Math.abs(dy) > height) return;
+
+      obj.dx = dx;
+      obj.dy = dy;
+      gsap.to(obj, { dx: 0, dy: 0, duration: 0.8, ease: 'power3.inOut' });
+    });
+  }
+
+  // Point a grid item at another image and its textures
+  private setItemImage(item: GridTile, image: CMSImage) {
+    const source = this.getImageSource(image);
+    const sourceHD = this.getImageSource(image, true);
+
+    item.source = source;
+    item.texture = this.textures.find((tex) => tex.source === source);
+    item.textureHD = this.texturesHD.find((tex) => tex.source === sourceHD);
+    item.textureWidth = image.file.details.image.width;
+    item.textureHeight = image.file.details.image.height;
+    item.imageIndex = this.uniqueImages.indexOf(image);
+    item.videoSource = image.video ?? null;
+    item.video = null;
+  }
+
+  private stopFilterTween() {
+    if (this.filterTween) {
+      this.filterTween.kill();
+      this.filterTween = null;
+    }
+  }
+
+  // Distance from the tile's center to the view center, in canvas pixels
+  private getDistanceToCenter(item: GridTile): number {
+    const obj = item.textureObject;
+    return Math.hypot(
+      obj.x + obj.displayWidth / 2 - this.windowSize.width / 2,
+      obj.y + obj.displayHeight / 2 - this.windowSize.height / 2
+    );
+  }
+
   // FIXED: Improved draw method with better sizing handling
   private draw() {
-    // Clear the set of drawn positions at the start of each frame
-    this.drawnPositions.clear();
-
     const canvas = this.gl.canvas as HTMLCanvasElement;
 
     // Always check if canvas size needs updating
@@ -1173,36 +2100,300 @@ export class WebGLGrid {
       this.gl.viewport(0, 0, canvas.width, canvas.height);
     }
 
-    // Clear canvas with our dark gray color
-    this.gl.clearColor(0.0588, 0.0588, 0.0588, 1.0); // #0F0F0F
+    // Clear canvas with the background color, which tiles also blend from
+    const { r, g, b } = this.backgroundColor;
+    this.gl.clearColor(r, g, b, 1.0);
     this.gl.clear(this.gl.COLOR_BUFFER_BIT | this.gl.DEPTH_BUFFER_BIT);
+    this.gl.useProgram(this.program);
+    this.gl.uniform3f(this.backgroundLocation, r, g, b);
+
+    this.updateVisibleItems();
+    this.attachVideos();
+
+    // Zoomed out, every tile comes from the atlas in one draw call per page; zoomed in,
+    // the few visible tiles are drawn one by one with their full SD and HD textures
+    if (this.atlas && this.ITEM_HEIGHT <= this.atlas.maxSharpSize) {
+      this.drawInstanced();
+
+      // Playing clips aren't in the atlas, so draw those tiles again on top
+      this.visibleItems.forEach((item) => {
+        if (item.video) {
+          item.draw();
+        }
+      });
+    } else {
+      this.visibleItems.forEach((item) => {
+        item.draw();
+
+        // Ask for HD textures when zoomed in, tiles nearest the center first
+        if (this.allowHD && this.currentZoom > 8 && item.textureHD) {
+          this.textureManager.request(item.textureHD, this.getDistanceToCenter(item));
+        }
+      });
+    }
+
+    // Start queued HD loads and release what no longer fits the budget
+    this.textureManager.update();
+
+    // Play the clips asked for above, pause the rest and upload their new frames
+    if (this.videoManager) {
+      this.videoManager.update();
+    }
+
+    // Keep keyboard focus on screen as the view pans
+    if (this.focusedItem && !this.focusedItem.isVisible) {
+      this.setFocusedItem(this.getItemNearestCenter());
+    }
+
+    // The tile under a resting pointer changes as the view pans and zooms
+    this.updateHover();
+  }
+
+  // Ask for the clips of visible video tiles, nearest the center first, and point each
+  // tile at its clip once it has a frame
+  private attachVideos() {
+    const manager = this.videoManager;
+    this.visibleItems.forEach((item) => {
+      if (!manager || !item.videoSource) {
+        item.video = null;
+        return;
+      }
+
+      if (this.allowHD) {
+        manager.request(item.videoSource, this.getDistanceToCenter(item));
+      }
+      item.video = manager.get(item.videoSource);
+    });
+  }
+
+  // Find the tiles intersecting the viewport. Items in a column share x and items in a row
+  // share y, so testing one row and one column tells which cells can be on screen.
+  private updateVisibleItems() {
+    this.visibleItems.forEach((item) => {
+      item.isVisible = false;
+    });
+    this.visibleItems = [];
+
+    const columns = this.COLUMN_ITEM_LENGTH;
+    const rows = Math.ceil(this.imagesGL.length / columns);
+    const { width, height } = this.windowSize;
+    const tallest = this.ITEM_WIDTH * this.maxTileAspect;
+
+    // Masonry rows don't line up, so test whole columns and then each tile in them
+    if (this.options.layout === 'masonry') {
+      this.masonryColumns.forEach((column) => {
+        const { x } = column[0].textureObject;
+        if (x >= width || x + this.ITEM_WIDTH <= 0) return;
+
+        column.forEach((item) => {
+          if (item.updateVisibility()) {
+            this.visibleItems.push(item);
+          }
+        });
+      });
+      return;
+    }
+
+    const visibleColumns: number[] = [];
+    for (let column = 0; column < columns && column < this.imagesGL.length; column += 1) {
+      const { x } = this.imagesGL[column].textureObject;
+      if (x < width && x + this.ITEM_WIDTH > 0) {
+        visibleColumns.push(column);
+      }
+    }
+
+    for (let row = 0; row < rows; row += 1) {
+      const { y } = this.imagesGL[row * columns].textureObject;
+      if (y >= height || y + tallest <= 0) continue;
+
+      visibleColumns.forEach((column) => {
+        const item = this.imagesGL[row * columns + column];
+        if (item && item.updateVisibility()) {
+          this.visibleItems.push(item);
+        }
+      });
+    }
+  }
+
+  // True while anything still moves, fades or loads, so the view keeps requesting frames
+  public needsRender(): boolean {
+    if (this.isDestroyed || this.isContextLost) return false;
+    if (!this.isIntroShown || this.isDragging || this.isPinching || this.heldKeys.size > 0) {
+      return true;
+    }
+    if (this.velocity.x !== 0 || this.velocity.y !== 0) return true;
+    if (this.lerpedScroll.x !== this.scroll.x || this.lerpedScroll.y !== this.scroll.y) return true;
+    if (this.zoomTween || this.panTween || gsap.isTweening(this)) return true;
+
+    if (this.uploadQueue.length > 0 || this.pendingPixelRatio !== null) return true;
+    if (this.filterTween) return true;
+    if (this.hasPanned || this.isPanning) return true;
+    if (this.postProcessor?.isAnimated) return true;
+    if (this.videoManager?.isPlaying) return true;
+    if (this.effectVelocity.x !== 0 || this.effectVelocity.y !== 0) return true;
+
+    return [...this.textures, ...this.texturesHD].some((texture) => gsap.isTweening(texture));
+  }
+
+  // Ask the view for frames again after input or a texture arriving
+  private invalidate() {
+    if (this.onInvalidate) {
+      this.onInvalidate();
+    }
+  }
+
+  // Draw all visible tiles from the atlas, batched per atlas page
+  private drawInstanced() {
+    const { gl, atlas, placeholderAtlas, instancing } = this;
+    const locations = this.instancedLocations;
+    if (!atlas || !instancing || !locations) return;
+
+    const stride = this.INSTANCE_STRIDE;
+    if (this.instanceData.length < this.imagesGL.length * stride) {
+      this.instanceData = new Float32Array(this.imagesGL.length * stride);
+    }
+
+    // Count visible tiles per page, then write each page's instances contiguously
+    const pageCounts = atlas.pages.map(() => 0);
+    this.visibleItems.forEach((item) => {
+      const slot = atlas.getSlot(item.source);
+      if (slot) {
+        pageCounts[slot.page] += 1;
+      }
+    });
+
+    const pageStarts: number[] = [];
+    let total = 0;
+    pageCounts.forEach((count) => {
+      pageStarts.push(total);
+      total += count;
+    });
+    if (total === 0) return;
+
+    const cursors = [...pageStarts];
+    const data = this.instanceData;
+    this.visibleItems.forEach((item) => {
+      const slot = atlas.getSlot(item.source);
+      if (!slot) return;
+
+      const obj = item.textureObject;
+      const i = cursors[slot.page] * stride;
+      cursors[slot.page] += 1;
+
+      data[i] = obj.x + obj.dx;
+      data[i + 1] = obj.y + obj.dy;
+      data[i + 2] = obj.displayWidth;
+      data[i + 3] = obj.displayHeight;
+      const [u0, v0, u1, v1] = slot.uv;
+      data[i + 4] = u0;
+      data[i + 5] = v0;
+      data[i + 6] = u1;
+      data[i + 7] = v1;
+      data[i + 8] = slot.isLoaded ? item.texture.opacity : 0;
+      data[i + 9] = item.isFocused ? 1 : 0;
+      data[i + 11] = item.filterOpacity;
+      data[i + 12] = item.texture.r;
+      data[i + 13] = item.texture.g;
+      data[i + 14] = item.texture.b;
+
+      // Placeholders fit on one page, bound next to whichever SD page is drawn
+      const placeholder = placeholderAtlas ? placeholderAtlas.getSlot(item.source) : undefined;
+      if (placeholder && placeholder.isLoaded && placeholder.page === 0) {
+        const [p0, q0, p1, q1] = placeholder.uv;
+        data[i + 10] = item.texture.placeholderOpacity;
+        data[i + 15] = p0;
+        data[i + 16] = q0;
+        data[i + 17] = p1;
+        data[i + 18] = q1;
+      } else {
+        data[i + 10] = 0;
+        data[i + 15] = 0;
+        data[i + 16] = 0;
+        data[i + 17] = 0;
+        data[i + 18] = 0;
+      }
+    });
+
+    gl.useProgram(this.instancedProgram);
+    gl.uniform2f(locations.resolution, gl.canvas.width, gl.canvas.height);
+    gl.uniform1f(locations.borderWidth, 3 * this.pixelRatio);
+    gl.uniform1f(locations.grayscale, this.grayscale);
+    const { r, g, b } = this.backgroundColor;
+    gl.uniform3f(locations.background, r, g, b);
+    gl.uniform1i(locations.atlas, 0);
+    gl.uniform1i(locations.placeholders, 1);
+    if (placeholderAtlas && placeholderAtlas.pages.length > 0) {
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_2D, placeholderAtlas.pages[0]);
+    }
+
+    // Shared unit quad
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.positionBuffer);
+    gl.enableVertexAttribArray(locations.position);
+    gl.vertexAttribPointer(locations.position, 2, gl.FLOAT, false, 0, 0);
+
+    // Per-instance attributes
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, data.subarray(0, total * stride), gl.DYNAMIC_DRAW);
+    const instanceAttributes = [
+      { location: locations.rect, size: 4, offset: 0 },
+      { location: locations.uv, size: 4, offset: 4 },
+      { location: locations.state, size: 4, offset: 8 },
+      { location: locations.color, size: 3, offset: 12 },
+      { location: locations.placeholderUv, size: 4, offset: 15 },
+    ];
+    instanceAttributes.forEach(({ location }) => {
+      gl.enableVertexAttribArray(location);
+      instancing.vertexAttribDivisorANGLE(location, 1);
+    });
 
-    // Draw grid items with duplicate prevention
-    this.imagesGL.forEach((item) => {
-      // Check if this position has already been drawn to
-      const posKey = `${Math.round(item.textureObject.x)},${Math.round(item.textureObject.y)}`;
+    gl.activeTexture(gl.TEXTURE0);
+    pageCounts.forEach((count, page) => {
+      if (count === 0) return;
 
-      if (!this.drawnPositions.has(posKey)) {
-        // Position hasn't been drawn to yet, draw the item
-        item.draw();
+      const byteStart = pageStarts[page] * stride * 4;
+      instanceAttributes.forEach(({ location, size, offset }) => {
+        gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride * 4, byteStart + offset * 4);
+      });
 
-        // Mark this position as drawn
-        this.drawnPositions.add(posKey);
+      gl.bindTexture(gl.TEXTURE_2D, atlas.pages[page]);
+      instancing.drawArraysInstancedANGLE(gl.TRIANGLES, 0, 6, count);
+    });
 
-        // Load HD texture for visible items when zoomed in
-        if (this.currentZoom > 8 && item.isVisible && item.textureHD) {
-          item.textureHD.load();
-        }
-      }
+    // Leave attribute state as the per-item path expects it
+    instanceAttributes.forEach(({ location }) => {
+      instancing.vertexAttribDivisorANGLE(location, 0);
+      gl.disableVertexAttribArray(location);
     });
   }
 
   // Main render loop
   public render(time = 0) {
-    if (!this.isInit || this.isDestroyed) return false;
+    if (!this.isInit || this.isDestroyed || this.isContextLost) return false;
+
+    if (time > 0) {
+      this.time = time / 1000;
+    }
 
+    this.uploadQueue.flush();
+    this.applyPendingPixelRatio();
     this.update();
+
+    // Draw into the effects' texture, then through the effects onto the canvas
+    const post = this.postProcessor?.isEnabled ? this.postProcessor : null;
+    if (post) {
+      post.begin(this.canvasElement.width, this.canvasElement.height);
+    }
     this.draw();
+    if (post) {
+      post.end({
+        time: this.time,
+        velocity: this.effectVelocity,
+        pointer: this.getCanvasPoint(),
+      });
+    }
+
+    this.checkPanEnd();
 
     // Update grayscale uniform
     this.gl.useProgram(this.program);
@@ -1211,37 +2402,77 @@ export class WebGLGrid {
     return true;
   }
 
+  // Apply a quality tier chosen by the governor in ArchiveView
+  public setQuality(tier: QualityTier) {
+    this.allowHD = tier.allowHD;
+    if (!this.allowHD) {
+      this.textureManager.releaseAll();
+    }
+
+    const pixelRatio = Math.min(this.options.pixelRatio, tier.maxPixelRatio);
+    this.pendingPixelRatio = pixelRatio !== this.pixelRatio ? pixelRatio : null;
+    this.invalidate();
+  }
+
+  // Resize the canvas for a new pixel ratio between gestures, so nothing jumps mid-drag.
+  // Image URLs keep imagePixelRatio, so textures and the atlas stay valid.
+  private applyPendingPixelRatio() {
+    if (this.pendingPixelRatio === null || !this.isIntroShown) return;
+    if (this.isDragging || this.isPinching || this.zoomTween || this.panTween) return;
+
+    const scale = this.pendingPixelRatio / this.pixelRatio;
+    this.pixelRatio = this.pendingPixelRatio;
+    this.pendingPixelRatio = null;
+
+    // Everything measured in canvas pixels scales with the canvas
+    this.ORIGINAL_ITEM_WIDTH *= scale;
+    this.ORIGINAL_ITEM_HEIGHT *= scale;
+    this.ORIGINAL_HORIZONTAL_GAP *= scale;
+    this.ORIGINAL_VERTICAL_GAP *= scale;
+    this.anchorLeft *= scale;
+    this.anchorTop *= scale;
+    this.anchorCenterLeft *= scale;
+    this.anchorCenterTop *= scale;
+    this.panOffset.x *= scale;
+    this.panOffset.y *= scale;
+    this.velocity.x *= scale;
+    this.velocity.y *= scale;
+    this.imagesGL.forEach((item) => {
+      item.textureObject.x *= scale;
+      item.textureObject.y *= scale;
+      item.borderWidth = 3 * this.pixelRatio;
+    });
+
+    this.fixCanvasSize();
+    const canvas = this.gl.canvas as HTMLCanvasElement;
+    this.windowSize = { width: canvas.width, height: canvas.height };
+    this.imagesGL.forEach((item) => {
+      item.setWindow(this.windowSize);
+    });
+
+    // Relayout at the current zoom with the scaled sizes
+    this.applyZoom(this.currentZoom);
+  }
+
   // Get image source URL with appropriate format and size - optimized for mobile
   private getImageSource(image: any, isHD = false): string {
-    const format =
-      this.fileFormat === 'originalFormat'
-        ? image.file.contentType === 'image/jpeg'
-          ? 'jpeg'
-          : 'png'
-        : this.fileFormat;
-
-    // Optimize size based on device
-    const size = isHD
-      ? this.isMobile
-        ? 800
-        : 1600 // Smaller HD on mobile
-      : this.isMobile
-        ? 400
-        : 800; // Smaller standard on mobile
-
-    // Optimize quality based on device - mobile gets lower quality to save memory
-    const quality = isHD
-      ? this.isMobile
-        ? 65
-        : 80 // Lower quality on mobile
-      : this.isMobile
-        ? 55
-        : 70;
-
-    // Limit size to original image dimensions
-    const requestedSize = Math.min(size * this.pixelRatio, image.file.details.image.height);
-
-    return `${image.file.url}?h=${Math.ceil(requestedSize)}&fm=${format}&q=${quality}&fit=fill`;
+    return getImageSource(
+      image,
+      {
+        fileFormat: this.fileFormat,
+        pixelRatio: this.imagePixelRatio,
+        provider: this.options.imageProvider,
+        sizing: this.options.imageSizing,
+        sizes: this.options.imageSizes,
+        quality: this.options.imageQuality,
+      },
+      isHD
+    );
+  }
+
+  // Get image sources for the unique (non-duplicated) image set, in shuffled order
+  public getImageSources(isHD = false): string[] {
+    return this.uniqueImages.map((image) => this.getImageSource(image, isHD));
   }
 
   // Check if HD texture is needed based on image dimensions
@@ -1249,12 +2480,12 @@ export class WebGLGrid {
     // Be more selective about HD textures on mobile
     if (this.isMobile) {
       // Only load HD on mobile for significantly large images
-      const standardSize = 500 * this.pixelRatio;
+      const standardSize = 500 * this.imagePixelRatio;
       return image.file.details.image.height > standardSize * 1.5;
     }
 
-    const hdSize = (this.isMobileViewport() ? 1000 : 1600) * this.pixelRatio;
-    const buffer = 400 * this.pixelRatio;
+    const hdSize = (this.isMobileViewport() ? 1000 : 1600) * this.imagePixelRatio;
+    const buffer = 400 * this.imagePixelRatio;
 
     return image.file.details.image.height + buffer >= hdSize;
   }
@@ -1268,6 +2499,20 @@ export class WebGLGrid {
   public bindEvents() {
     this.canvasElement.addEventListener('mousedown', this.handleMouseDown);
     this.canvasElement.addEventListener('touchstart', this.handleMouseDown);
+    this.canvasElement.addEventListener('wheel', this.handleWheel, { passive: false });
+    this.canvasElement.addEventListener('gesturestart', this.handleGestureStart);
+    this.canvasElement.addEventListener('gesturechange', this.handleGestureChange);
+    this.canvasElement.addEventListener('keydown', this.handleKeyDown);
+    this.canvasElement.addEventListener('keyup', this.handleKeyUp);
+    this.canvasElement.addEventListener('focus', this.handleFocus);
+    this.canvasElement.addEventListener('blur', this.handleBlur);
+    this.canvasElement.addEventListener('mousemove', this.handleHoverMove);
+    this.canvasElement.addEventListener('mouseleave', this.handleHoverLeave);
+
+    // Focus may already be on the canvas when the intro finishes
+    if (document.activeElement === this.canvasElement) {
+      this.handleFocus();
+    }
   }
 
   // Unbind events
@@ -1275,6 +2520,15 @@ export class WebGLGrid {
     if (this.canvasElement) {
       this.canvasElement.removeEventListener('mousedown', this.handleMouseDown);
       this.canvasElement.removeEventListener('touchstart', this.handleMouseDown);
+      this.canvasElement.removeEventListener('wheel', this.handleWheel);
+      this.canvasElement.removeEventListener('gesturestart', this.handleGestureStart);
+      this.canvasElement.removeEventListener('gesturechange', this.handleGestureChange);
+      this.canvasElement.removeEventListener('keydown', this.handleKeyDown);
+      this.canvasElement.removeEventListener('keyup', this.handleKeyUp);
+      this.canvasElement.removeEventListener('focus', this.handleFocus);
+      this.canvasElement.removeEventListener('blur', this.handleBlur);
+      this.canvasElement.removeEventListener('mousemove', this.handleHoverMove);
+      this.canvasElement.removeEventListener('mouseleave', this.handleHoverLeave);
     }
 
     // Clean up document-level event listeners too
@@ -1292,6 +2546,13 @@ export class WebGLGrid {
   // Mouse down handler
   private handleMouseDown = (e: MouseEvent | TouchEvent) => {
     e.preventDefault();
+    this.invalidate();
+
+    // A second finger turns the drag into a pinch
+    if ('touches' in e && e.touches.length >= 2) {
+      this.startPinch(e);
+      return;
+    }
 
     let clientX, clientY;
     if ('touches' in e) {
@@ -1303,6 +2564,11 @@ export class WebGLGrid {
     }
 
     this.isDragging = true;
+    this.stopPanTween();
+
+    // Remember where the pointer went down to tell clicks apart from drags
+    this.pointerDown.x = clientX;
+    this.pointerDown.y = clientY;
 
     // Calculate offset
     const rect = this.canvasElement.getBoundingClientRect();
@@ -1326,6 +2592,15 @@ export class WebGLGrid {
 
   // Mouse move handler
   private handleMouseMove = (e: MouseEvent | TouchEvent) => {
+    this.invalidate();
+
+    if (this.isPinching) {
+      if ('touches' in e && e.touches.length >= 2) {
+        this.updatePinch(e);
+      }
+      return;
+    }
+
     let clientX, clientY;
     if ('touches' in e) {
       clientX = e.touches[0].clientX;
@@ -1352,22 +2627,420 @@ export class WebGLGrid {
   };
 
   // Mouse up handler
-  private handleMouseUp = () => {
+  private handleMouseUp = (e: MouseEvent | TouchEvent) => {
     this.isDragging = false;
 
+    if (this.isPinching) {
+      // Keep pinching while two fingers remain on screen
+      if ('touches' in e && e.touches.length >= 2) return;
+
+      this.isPinching = false;
+      this.velocity.x = 0;
+      this.velocity.y = 0;
+
+      // Wait for the last finger to lift before releasing listeners
+      if ('touches' in e && e.touches.length > 0) return;
+
+      this.removeDragListeners();
+      return;
+    }
+
+    let clientX, clientY;
+    if ('changedTouches' in e) {
+      clientX = e.changedTouches[0].clientX;
+      clientY = e.changedTouches[0].clientY;
+    } else {
+      clientX = (e as MouseEvent).clientX;
+      clientY = (e as MouseEvent).clientY;
+    }
+
+    // Treat short pointer travel as a click on the tile under the pointer
+    const travel = Math.hypot(clientX - this.pointerDown.x, clientY - this.pointerDown.y);
+    if (travel < this.CLICK_TRAVEL_THRESHOLD) {
+      this.handleTileClick(clientX, clientY);
+    }
+
     // Boost velocity for mobile
     if (this.isMobileViewport() || this.currentZoom > 3) {
       this.velocity.x *= 2;
       this.velocity.y *= 2;
     }
 
-    // Remove document-level event listeners
+    this.removeDragListeners();
+  };
+
+  // Remove document-level drag listeners
+  private removeDragListeners() {
     document.removeEventListener('mousemove', this.handleMouseMove);
     document.removeEventListener('mouseup', this.handleMouseUp);
     document.removeEventListener('touchmove', this.handleMouseMove);
     document.removeEventListener('touchend', this.handleMouseUp);
+  }
+
+  // Convert client coordinates into canvas pixel coordinates
+  private toCanvasPoint(clientX: number, clientY: number) {
+    const rect = this.canvasElement.getBoundingClientRect();
+    return {
+      x: (clientX - rect.left) * this.pixelRatio,
+      y: (clientY - rect.top) * this.pixelRatio,
+    };
+  }
+
+  // Get distance and midpoint between the first two touches
+  private getPinchInfo(e: TouchEvent) {
+    const [a, b] = [e.touches[0], e.touches[1]];
+    return {
+      distance: Math.hypot(b.clientX - a.clientX, b.clientY - a.clientY),
+      center: this.toCanvasPoint((a.clientX + b.clientX) / 2, (a.clientY + b.clientY) / 2),
+    };
+  }
+
+  // Start a two-finger pinch zoom
+  private startPinch(e: TouchEvent) {
+    this.isDragging = false;
+    this.isPinching = true;
+    this.velocity.x = 0;
+    this.velocity.y = 0;
+    this.stopZoomTween();
+
+    this.pinchStartDistance = this.getPinchInfo(e).distance || 1;
+    this.pinchStartZoom = this.currentZoom;
+
+    // Pinch may start on the second finger, so listeners might not be bound yet
+    document.addEventListener('touchmove', this.handleMouseMove);
+    document.addEventListener('touchend', this.handleMouseUp);
+  }
+
+  // Zoom around the midpoint of the two fingers
+  private updatePinch(e: TouchEvent) {
+    const { distance, center } = this.getPinchInfo(e);
+    const targetZoom = this.clampZoom((this.pinchStartZoom * distance) / this.pinchStartDistance);
+    this.applyZoom(targetZoom, center);
+  }
+
+  // Ctrl+wheel (and trackpad pinch in Chrome/Firefox) zooms around the cursor
+  private handleWheel = (e: WheelEvent) => {
+    if (!e.ctrlKey || !this.isIntroShown) return;
+    e.preventDefault();
+    this.invalidate();
+
+    // Normalise line-based deltas to pixels
+    const deltaY = e.deltaMode === 1 ? e.deltaY * 16 : e.deltaY;
+    const targetZoom = this.clampZoom(this.currentZoom * Math.exp(-deltaY * 0.01));
+
+    this.stopZoomTween();
+    this.applyZoom(targetZoom, this.toCanvasPoint(e.clientX, e.clientY));
+  };
+
+  // Safari trackpad pinch
+  private handleGestureStart = (e: Event) => {
+    e.preventDefault();
+    this.invalidate();
+    this.stopZoomTween();
+    this.gestureStartZoom = this.currentZoom;
+  };
+
+  private handleGestureChange = (e: Event) => {
+    if (!this.isIntroShown) return;
+    e.preventDefault();
+
+    this.invalidate();
+
+    const gesture = e as GestureEvent;
+    const targetZoom = this.clampZoom(this.gestureStartZoom * gesture.scale);
+    this.applyZoom(targetZoom, this.toCanvasPoint(gesture.clientX, gesture.clientY));
+  };
+
+  // Find the grid item drawn under a client-space point
+  private getItemAtPoint(clientX: number, clientY: number) {
+    const { x, y } = this.toCanvasPoint(clientX, clientY);
+
+    return this.visibleItems.find((item) => item.containsPoint(x, y)) || null;
+  }
+
+  // Hit-test a click and report the selected image
+  private handleTileClick(clientX: number, clientY: number) {
+    if (!this.isIntroShown) return;
+
+    const item = this.getItemAtPoint(clientX, clientY);
+    if (item) {
+      this.activateItem(item);
+    }
+  }
+
+  private handleHoverMove = (e: MouseEvent) => {
+    this.hoverPoint = { x: e.clientX, y: e.clientY };
+    this.updateHover();
+    if (this.postProcessor?.usesPointer) this.invalidate();
+  };
+
+  private handleHoverLeave = () => {
+    this.hoverPoint = null;
+    this.updateHover();
+    if (this.postProcessor?.usesPointer) this.invalidate();
+  };
+
+  // Pointer position in canvas pixels for the spotlight effect, null when outside the canvas
+  private getCanvasPoint(): { x: number; y: number } | null {
+    if (!this.hoverPoint) return null;
+
+    const rect = this.canvasElement.getBoundingClientRect();
+    return {
+      x: ((this.hoverPoint.x - rect.left) / Math.max(1, rect.width)) * this.canvasElement.width,
+      y: ((this.hoverPoint.y - rect.top) / Math.max(1, rect.height)) * this.canvasElement.height,
+    };
+  }
+
+  // Report the tile under the pointer and its screen bounds, or null while dragging
+  private updateHover() {
+    const item =
+      this.hoverPoint && this.isIntroShown && !this.isDragging && !this.isPinching
+        ? this.getItemAtPoint(this.hoverPoint.x, this.hoverPoint.y)
+        : null;
+    if (!item && !this.hoveredItem) return;
+
+    this.hoveredItem = item;
+
+    let hover: TileHover | null = null;
+    if (item && item.imageIndex >= 0) {
+      const rect = this.canvasElement.getBoundingClientRect();
+      const obj = item.textureObject;
+      hover = {
+        image: this.uniqueImages[item.imageIndex],
+        index: item.imageIndex,
+        bounds: {
+          left: rect.left + obj.x / this.pixelRatio,
+          top: rect.top + obj.y / this.pixelRatio,
+          right: rect.left + (obj.x + obj.displayWidth) / this.pixelRatio,
+          bottom: rect.top + (obj.y + obj.displayHeight) / this.pixelRatio,
+        },
+      };
+    }
+
+    if (this.onTileHover) {
+      this.onTileHover(hover);
+    }
+    this.events.emit('tilehover', hover);
+  }
+
+  // Trigger the tile action for a grid item
+  private activateItem(item: GridTile) {
+    if (item.imageIndex < 0) return;
+
+    const image = this.uniqueImages[item.imageIndex];
+    if (this.onTileClick) {
+      this.onTileClick(image, item.imageIndex);
+    }
+    this.events.emit('tileclick', { image, index: item.imageIndex });
+  }
+
+  // Map keys to pan directions (content moves opposite to the view)
+  private getKeyDirection(key: string) {
+    switch (key) {
+      case 'arrowleft':
+      case 'a':
+        return { x: 1, y: 0 };
+      case 'arrowright':
+      case 'd':
+        return { x: -1, y: 0 };
+      case 'arrowup':
+      case 'w':
+        return { x: 0, y: 1 };
+      case 'arrowdown':
+      case 's':
+        return { x: 0, y: -1 };
+      default:
+        return null;
+    }
+  }
+
+  // Add acceleration from held pan keys to the momentum velocity
+  private applyKeyboardPan() {
+    if (this.heldKeys.size === 0) return;
+
+    const acceleration = this.KEY_PAN_ACCELERATION * this.pixelRatio;
+    this.heldKeys.forEach((key) => {
+      const direction = this.getKeyDirection(key);
+      if (!direction) return;
+      this.velocity.x += direction.x * acceleration;
+      this.velocity.y += direction.y * acceleration;
+    });
+  }
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    if (!this.isIntroShown || e.metaKey || e.ctrlKey || e.altKey) return;
+
+    const key = e.key.toLowerCase();
+    this.invalidate();
+
+    if (this.getKeyDirection(key)) {
+      e.preventDefault();
+      this.stopPanTween();
+      this.heldKeys.add(key);
+      return;
+    }
+
+    switch (key) {
+      case '+':
+      case '=':
+        e.preventDefault();
+        this.zoom('zoom-in');
+        break;
+      case '-':
+      case '_':
+        e.preventDefault();
+        this.zoom('zoom-out');
+        break;
+      case 'home':
+        e.preventDefault();
+        this.recenter();
+        break;
+      case 'tab':
+        // Let focus leave the canvas once the last visible tile is passed
+        if (this.moveFocus(e.shiftKey ? -1 : 1)) {
+          e.preventDefault();
+        }
+        break;
+      case 'enter':
+      case ' ':
+        if (this.focusedItem) {
+          e.preventDefault();
+          this.activateItem(this.focusedItem);
+        }
+        break;
+    }
+  };
+
+  private handleKeyUp = (e: KeyboardEvent) => {
+    this.heldKeys.delete(e.key.toLowerCase());
+  };
+
+  private handleFocus = () => {
+    if (!this.isIntroShown) return;
+    this.setFocusedItem(this.getItemNearestCenter());
+  };
+
+  private handleBlur = () => {
+    this.heldKeys.clear();
+    this.setFocusedItem(null);
   };
 
+  // Visible items in reading order (top-to-bottom, left-to-right)
+  private getVisibleItemsInOrder() {
+    return [...this.visibleItems].sort(
+      (a, b) => a.textureObject.y - b.textureObject.y || a.textureObject.x - b.textureObject.x
+    );
+  }
+
+  // Find the visible item closest to the view center
+  private getItemNearestCenter(): GridTile | null {
+    let nearest: GridTile | null = null;
+    let nearestDistance = Infinity;
+
+    for (const item of this.visibleItems) {
+      const distance = this.getDistanceToCenter(item);
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = item;
+      }
+    }
+
+    return nearest;
+  }
+
+  // Image of the visible tile nearest the view center, or null before any is drawn
+  public getCenteredImage(): CMSImage | null {
+    const item = this.getItemNearestCenter();
+    return item && item.imageIndex >= 0 ? this.uniqueImages[item.imageIndex] : null;
+  }
+
+  // Move keyboard focus through visible tiles, returns false when focus should leave
+  private moveFocus(step: number): boolean {
+    const visibleItems = this.getVisibleItemsInOrder();
+    const currentIndex = this.focusedItem ? visibleItems.indexOf(this.focusedItem) : -1;
+    const nextIndex = currentIndex === -1 ? 0 : currentIndex + step;
+
+    if (nextIndex < 0 || nextIndex >= visibleItems.length) {
+      this.setFocusedItem(null);
+      return false;
+    }
+
+    this.setFocusedItem(visibleItems[nextIndex]);
+    return true;
+  }
+
+  private setFocusedItem(item: GridTile | null) {
+    if (this.focusedItem === item) return;
+    this.invalidate();
+
+    if (this.focusedItem) {
+      this.focusedItem.isFocused = false;
+    }
+    this.focusedItem = item;
+
+    if (item) {
+      item.isFocused = true;
+      if (this.onTileFocus && item.imageIndex >= 0) {
+        this.onTileFocus(this.uniqueImages[item.imageIndex], item.imageIndex);
+      }
+    }
+  }
+
+  // Animate the pan back to where the intro left the view
+  private recenter() {
+    this.animatePanTo(0, 0);
+  }
+
+  // Animate the pan to an offset in zoom-independent units
+  private animatePanTo(x: number, y: number) {
+    this.animateCamera({ x, y, zoom: this.currentZoom });
+  }
+
+  // Animate pan (zoom-independent units) and zoom together
+  private animateCamera(target: { x: number; y: number; zoom: number }, duration = 0.8) {
+    this.invalidate();
+    this.stopPanTween();
+    this.stopZoomTween();
+    this.velocity.x = 0;
+    this.velocity.y = 0;
+
+    if (duration <= 0) {
+      this.applyCamera(target);
+      return;
+    }
+
+    const t = { x: this.panOffset.x, y: this.panOffset.y, zoom: this.currentZoom };
+
+    this.panTween = gsap.to(t, {
+      ...target,
+      duration,
+      ease: 'power3.inOut',
+      onUpdate: () => {
+        this.applyCamera(t);
+      },
+      onComplete: () => {
+        this.panTween = null;
+      },
+    });
+  }
+
+  private applyCamera(camera: { x: number; y: number; zoom: number }) {
+    if (camera.zoom !== this.currentZoom) {
+      this.applyZoom(camera.zoom);
+    }
+    this.translate({
+      x: (camera.x - this.panOffset.x) * this.currentZoom,
+      y: (camera.y - this.panOffset.y) * this.currentZoom,
+    });
+  }
+
+  private stopPanTween() {
+    if (this.panTween) {
+      this.panTween.kill();
+      this.panTween = null;
+    }
+  }
+
   // Add method to fade in all textures
   private fadeInAllTextures() {
     this.textures.forEach((texture) => {
@@ -1378,6 +3051,11 @@ export class WebGLGrid {
   private introSequence() {
     if (this.isIntroShown) return;
 
+    if (this.isResuming) {
+      this.resumeSequence();
+      return;
+    }
+
     // Now fade in the textures as part of the intro sequence
     this.fadeInAllTextures();
 
@@ -1387,8 +3065,7 @@ export class WebGLGrid {
         this.applyZoom(t.zoom);
       },
       onComplete: () => {
-        this.isIntroShown = true;
-        this.bindEvents();
+        this.completeIntro();
       },
     });
 
@@ -1398,8 +3075,8 @@ export class WebGLGrid {
     this.TLIntro.to(
       this,
       {
-        ORIGINAL_HORIZONTAL_GAP: 90 * this.pixelRatio,
-        duration: 1.2,
+        ORIGINAL_HORIZONTAL_GAP: this.options.introHorizontalGap * this.pixelRatio,
+        duration: this.options.introDuration,
         ease: 'power3.out',
       },
       0
@@ -1409,19 +3086,19 @@ export class WebGLGrid {
     this.TLIntro.to(
       this,
       {
-        ORIGINAL_VERTICAL_GAP: 140 * this.pixelRatio,
-        duration: 1.2,
+        ORIGINAL_VERTICAL_GAP: this.options.introVerticalGap * this.pixelRatio,
+        duration: this.options.introDuration,
         ease: 'power3.out',
       },
       0
     );
 
-    // Animate zoom to 0.9
+    // Animate zoom to the configured or restored zoom
     this.TLIntro.to(
       t,
       {
-        zoom: 0.9,
-        duration: 1.2,
+        zoom: this.initialZoom,
+        duration: this.options.introDuration,
         ease: 'power3.out',
       },
       0
@@ -1432,7 +3109,7 @@ export class WebGLGrid {
       this,
       {
         grayscale: 0,
-        duration: 1.2,
+        duration: this.options.introDuration,
         ease: 'power3.out',
       },
       0
@@ -1450,31 +3127,73 @@ export class WebGLGrid {
     );
   }
 
+  // Back within the session: start at the saved spacing, zoom and pan, and only fade in
+  private resumeSequence() {
+    this.ORIGINAL_HORIZONTAL_GAP = this.options.introHorizontalGap * this.pixelRatio;
+    this.ORIGINAL_VERTICAL_GAP = this.options.introVerticalGap * this.pixelRatio;
+    this.applyZoom(this.initialZoom);
+    this.applyCamera({
+      x: this.initialPan.x * this.pixelRatio,
+      y: this.initialPan.y * this.pixelRatio,
+      zoom: this.initialZoom,
+    });
+    this.fadeInAllTextures();
+
+    this.TLIntro = gsap.timeline({
+      onComplete: () => {
+        this.completeIntro();
+      },
+    });
+    this.TLIntro.to(this, { grayscale: 0, duration: 0.6, ease: 'power2.out' }, 0);
+    this.TLIntro.call(
+      () => {
+        if (this.onIntroMostlyDone) {
+          this.onIntroMostlyDone();
+        }
+      },
+      [],
+      0.0
+    );
+  }
+
+  private completeIntro() {
+    this.isIntroShown = true;
+    this.bindEvents();
+
+    // Glide to a restored view now the grid spacing is final; a resumed view is already there
+    if (!this.isResuming && (this.initialPan.x !== 0 || this.initialPan.y !== 0)) {
+      this.animatePanTo(this.initialPan.x * this.pixelRatio, this.initialPan.y * this.pixelRatio);
+    } else {
+      this.notifyCameraChange();
+    }
+    this.events.emit('introcomplete', this.getCameraState());
+  }
+
   // Zoom function for UI controls
   public zoom(action: string) {
-    if (!this.isIntroShown) return;
-
-    const t = { zoom: this.currentZoom };
-    let targetZoom =
+    this.setZoom(
       action === 'zoom-in'
         ? Math.round(this.currentZoom * 2 * 1000) / 1000
-        : Math.round(this.currentZoom * 0.5 * 1000) / 1000;
+        : Math.round(this.currentZoom * 0.5 * 1000) / 1000
+    );
+  }
 
-    // Keep zoom within limits
-    targetZoom = Math.max(0.25, targetZoom);
+  // Keep zoom between the configured bounds
+  private clampZoom(zoom: number): number {
+    return Math.min(this.MAX_ZOOM, Math.max(this.MIN_ZOOM, zoom));
+  }
 
-    gsap.to(t, {
-      zoom: targetZoom,
-      duration: 0.6,
-      ease: 'power2.inOut',
-      onUpdate: () => {
-        this.applyZoom(t.zoom);
-      },
-    });
+  // Stop any running button zoom so continuous zoom takes over cleanly
+  private stopZoomTween() {
+    if (this.zoomTween) {
+      this.zoomTween.kill();
+      this.zoomTween = null;
+    }
   }
 
-  // Apply zoom transformation
-  private applyZoom(newZoom: number) {
+  // Apply zoom transformation, keeping the focal point (canvas pixels) fixed on screen.
+  // Without a focal point the zoom is anchored on the view center.
+  private applyZoom(newZoom: number, focal?: { x: number; y: number }) {
     // Calculate zoom ratio
     const zoomRatio = newZoom / this.currentZoom;
     this.currentZoom = newZoom;
@@ -1485,6 +3204,13 @@ export class WebGLGrid {
     this.ITEM_WIDTH = this.ORIGINAL_ITEM_WIDTH * this.currentZoom;
     this.ITEM_HEIGHT = this.ORIGINAL_ITEM_HEIGHT * this.currentZoom;
 
+    if (this.options.layout === 'masonry') {
+      this.layoutMasonry();
+      this.applyZoomFocal(zoomRatio, focal);
+      this.notifyZoomChange(zoomRatio);
+      return;
+    }
+
     // Calculate anchor points for maintaining view center
     const anchorX =
       (this.imagesGL[0].textureObject.x - this.anchorLeft) * zoomRatio +
@@ -1532,6 +3258,27 @@ export class WebGLGrid {
     this.anchorCenterLeft = anchorX;
     this.anchorTop = this.imagesGL[0].textureObject.y;
     this.anchorCenterTop = anchorY;
+
+    this.applyZoomFocal(zoomRatio, focal);
+    this.notifyZoomChange(zoomRatio);
+  }
+
+  private notifyZoomChange(zoomRatio: number) {
+    this.notifyCameraChange();
+    if (this.isIntroShown && zoomRatio !== 1) {
+      this.events.emit('zoomchange', { zoom: this.currentZoom });
+    }
+  }
+
+  // Shift the center-anchored layout so the focal point stays under the cursor
+  private applyZoomFocal(zoomRatio: number, focal?: { x: number; y: number }) {
+    if (!focal) return;
+
+    const delta = {
+      x: (focal.x - this.windowSize.width / 2) * (1 - zoomRatio),
+      y: (focal.y - this.windowSize.height / 2) * (1 - zoomRatio),
+    };
+    this.translate(delta);
   }
 
   // FIXED: Update window size with better handling
@@ -1570,6 +3317,13 @@ export class WebGLGrid {
       );
     });
 
+    // Masonry tiles are placed relative to the window center
+    if (this.options.layout === 'masonry') {
+      this.layoutMasonry();
+    }
+
+    this.invalidate();
+
     // Force a redraw
     this.render(0);
   }
@@ -1601,6 +3355,9 @@ export class WebGLGrid {
 
     // Remove event listeners immediately (doesn't affect visuals)
     this.unbindEvents();
+    this.events.clear();
+    this.canvasElement.removeEventListener('webglcontextlost', this.handleContextLost);
+    this.canvasElement.removeEventListener('webglcontextrestored', this.handleContextRestored);
 
     // Kill any GSAP animations (doesn't affect visuals)
     if (this.TLIntro) {
@@ -1612,6 +3369,9 @@ export class WebGLGrid {
     if (this.introMostlyDoneTimer) {
       this.introMostlyDoneTimer.kill();
     }
+    this.stopZoomTween();
+    this.stopPanTween();
+    this.stopFilterTween();
 
     // Schedule actual resource cleanup for AFTER all transitions complete
     setTimeout(() => {
@@ -1630,6 +3390,8 @@ export class WebGLGrid {
         }
 
         if (this.texturesHD) {
+          this.uploadQueue.clear();
+          this.textureManager.clear();
           this.texturesHD.forEach((texture) => {
             if (texture && texture.destroy) {
               texture.destroy();
@@ -1655,6 +3417,36 @@ export class WebGLGrid {
           this.program = null;
         }
 
+        // Delete instancing resources
+        if (this.atlas) {
+          this.atlas.destroy();
+          this.atlas = null;
+        }
+        if (this.placeholderAtlas) {
+          this.placeholderAtlas.destroy();
+          this.placeholderAtlas = null;
+        }
+
+        if (this.instanceBuffer) {
+          gl.deleteBuffer(this.instanceBuffer);
+          this.instanceBuffer = null;
+        }
+
+        if (this.instancedProgram) {
+          gl.deleteProgram(this.instancedProgram);
+          this.instancedProgram = null;
+        }
+
+        if (this.postProcessor) {
+          this.postProcessor.destroy();
+          this.postProcessor = null;
+        }
+
+        if (this.videoManager) {
+          this.videoManager.destroy();
+          this.videoManager = null;
+        }
+
         // Clear references to help GC
         this.imagesGL = [];
 
@@ -0,0 +1,206 @@
+import { toHexColor } from '../../utils/imageDataParser';
+import { IMAGE_URL_PROVIDERS } from './imageProviders';
+import { POST_EFFECTS, type PostEffectName } from './PostProcessing';
+import type { GridOptions, ImageProviderName, ImageVariantTable, PostEffectOptions } from './types';
+
+export type ResolvedGridOptions = GridOptions & { pixelRatio: number };
+
+// Current archive look and feel
+export const DEFAULT_GRID_OPTIONS: GridOptions = {
+  columnCount: 79,
+  rowCount: 30,
+  itemWidth: 90,
+  itemHeight: 140,
+  horizontalGap: 10,
+  verticalGap: 10,
+  introHorizontalGap: 90,
+  introVerticalGap: 140,
+  introStartZoom: 0.4,
+  introZoom: 0.9,
+  introDuration: 1.2,
+  scrollLerp: 0.12,
+  dragLerp: 0.075,
+  friction: 0.95,
+  minZoom: 0.25,
+  maxZoom: 16,
+  backgroundColor: '#0F0F0F',
+  layout: 'grid',
+  textureBudget: 384,
+  maxConcurrentLoads: 6,
+  maxVideoDecoders: 4,
+  effects: {},
+  imageProvider: 'contentful',
+  imageSizing: 'height',
+  imageSizes: { sd: 800, hd: 1600 },
+  imageQuality: { sd: 70, hd: 80 },
+};
+
+const OPTION_KEYS = [
+  ...Object.keys(DEFAULT_GRID_OPTIONS),
+  'pixelRatio',
+  'seed',
+  'gridScale',
+  'maxPixelRatio',
+] as (keyof GridOptions)[];
+
+// Conservative grid and texture budget on mobile - prevents memory issues
+function getMobileOptions(): Partial<GridOptions> {
+  return {
+    columnCount: window.innerWidth < 480 ? 39 : 49,
+    rowCount: window.innerWidth < 480 ? 15 : 20,
+    textureBudget: 128,
+    maxConcurrentLoads: 3,
+    maxVideoDecoders: 2,
+    // Smaller, lower quality images to save memory
+    imageSizes: { sd: 400, hd: 800 },
+    imageQuality: { sd: 55, hd: 65 },
+  };
+}
+
+/**
+ * Merge defaults, mobile overrides and the given options into a complete configuration
+ */
+export function resolveGridOptions(
+  isMobile: boolean,
+  options: Partial<GridOptions> = {}
+): ResolvedGridOptions {
+  const resolved: GridOptions = {
+    ...DEFAULT_GRID_OPTIONS,
+    ...(isMobile ? getMobileOptions() : {}),
+  };
+
+  // Skip undefined entries so they don't wipe out defaults
+  OPTION_KEYS.forEach((key) => {
+    if (options[key] !== undefined) {
+      Object.assign(resolved, { [key]: options[key] });
+    }
+  });
+
+  if (resolved.gridScale !== undefined && resolved.gridScale > 0) {
+    resolved.columnCount *= Math.min(1, resolved.gridScale);
+    resolved.rowCount *= Math.min(1, resolved.gridScale);
+  }
+
+  // The CSS background and the WebGL clear colour must agree, so only keep hex colours
+  resolved.backgroundColor =
+    toHexColor(resolved.backgroundColor) ?? DEFAULT_GRID_OPTIONS.backgroundColor;
+  resolved.columnCount = Math.max(1, Math.round(resolved.columnCount));
+  resolved.rowCount = Math.max(1, Math.round(resolved.rowCount));
+  resolved.maxZoom = Math.max(resolved.minZoom, resolved.maxZoom);
+  resolved.textureBudget = Math.max(0, resolved.textureBudget);
+  resolved.maxConcurrentLoads = Math.max(1, Math.round(resolved.maxConcurrentLoads));
+  resolved.maxVideoDecoders = Math.max(0, Math.round(resolved.maxVideoDecoders));
+  resolved.imageSizes = {
+    sd: Math.max(1, resolved.imageSizes.sd),
+    hd: Math.max(1, resolved.imageSizes.hd),
+  };
+  resolved.imageQuality = {
+    sd: Math.max(1, Math.min(100, Math.round(resolved.imageQuality.sd))),
+    hd: Math.max(1, Math.min(100, Math.round(resolved.imageQuality.hd))),
+  };
+
+  return {
+    ...resolved,
+    // Cap pixel ratio on mobile to reduce memory usage
+    pixelRatio:
+      resolved.pixelRatio ??
+      (isMobile ? Math.min(window.devicePixelRatio || 1, 2.0) : window.devicePixelRatio || 1),
+  };
+}
+
+/**
+ * Parse a list of effects like "grain vignette:0.6"; effects without a strength use their default
+ */
+function parseEffects(value: string): PostEffectOptions {
+  const effects: PostEffectOptions = {};
+
+  value
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .forEach((entry) => {
+      const [name, strength] = entry.split(':');
+      if (!(name in POST_EFFECTS)) return;
+
+      const effect = name as PostEffectName;
+      const number =
+        strength === undefined ? POST_EFFECTS[effect].defaultStrength : Number(strength);
+      if (Number.isFinite(number)) {
+        effects[effect] = Math.max(0, Math.min(1, number));
+      }
+    });
+
+  return effects;
+}
+
+/**
+ * Parse an SD and HD pair like "800 1600", or undefined unless both are positive numbers
+ */
+function parseVariantTable(value: string): ImageVariantTable | undefined {
+  const [sd, hd] = value
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number);
+  return sd > 0 && hd > 0 ? { sd, hd } : undefined;
+}
+
+/**
+ * Read options from data-* attributes, e.g. data-column-count="60", data-background-color="#000",
+ * data-image-provider="imgix", data-image-sizes="800 1600" or data-effects="grain vignette:0.6"
+ */
+export function getGridOptionsFromDataset(element: HTMLElement): Partial<GridOptions> {
+  const options: Partial<GridOptions> = {};
+
+  OPTION_KEYS.forEach((key) => {
+    const value = element.dataset[key];
+    if (value === undefined || value.trim() === '') return;
+
+    if (key === 'backgroundColor') {
+      options.backgroundColor = value.trim();
+      return;
+    }
+
+    if (key === 'layout') {
+      const layout = value.trim();
+      if (layout === 'grid' || layout === 'masonry') {
+        options.layout = layout;
+      }
+      return;
+    }
+
+    if (key === 'imageProvider') {
+      const provider = value.trim();
+      if (Object.keys(IMAGE_URL_PROVIDERS).includes(provider)) {
+        options.imageProvider = provider as ImageProviderName;
+      }
+      return;
+    }
+
+    if (key === 'imageSizing') {
+      const sizing = value.trim();
+      if (sizing === 'height' || sizing === 'width') {
+        options.imageSizing = sizing;
+      }
+      return;
+    }
+
+    if (key === 'imageSizes' || key === 'imageQuality') {
+      const table = parseVariantTable(value);
+      if (table) {
+        options[key] = table;
+      }
+      return;
+    }
+
+    if (key === 'effects') {
+      options.effects = parseEffects(value);
+      return;
+    }
+
+    const number = Number(value);
+    if (Number.isFinite(number)) {
+      (options as Record<string, number>)[key] = number;
+    }
+  });
+
+  return options;
+}
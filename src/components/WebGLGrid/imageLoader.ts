@@ -0,0 +1,152 @@
+/**
+ * Image fetching and decoding for the archive textures. Decodes with createImageBitmap,
+ * off the main thread in a worker where possible, and falls back to an Image element.
+ */
+
+export type DecodedImage = HTMLImageElement | ImageBitmap;
+
+// Fetch and decode in the worker, then hand the bitmap back without copying it
+const WORKER_SOURCE = `
+self.onmessage = async (event) => {
+  const { id, source, cache } = event.data;
+  try {
+    const response = await fetch(source, { mode: 'cors', cache });
+    if (!response.ok) throw new Error('HTTP ' + response.status);
+    const blob = await response.blob();
+    const bitmap = await createImageBitmap(blob, { premultiplyAlpha: 'none' });
+    self.postMessage({ id, bitmap }, [bitmap]);
+  } catch (error) {
+    self.postMessage({ id, error: String(error) });
+  }
+};
+`;
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+const pendingRequests: Map<
+  number,
+  { resolve: (bitmap: ImageBitmap) => void; reject: (error: Error) => void }
+> = new Map();
+
+/**
+ * Check if the browser can decode fetched images into ImageBitmaps
+ */
+function supportsImageBitmap(): boolean {
+  return typeof createImageBitmap === 'function' && typeof fetch === 'function';
+}
+
+/**
+ * Start the shared decode worker, or return null if workers are unavailable or blocked
+ */
+function getWorker(): Worker | null {
+  if (worker || workerFailed) return worker;
+
+  if (typeof Worker !== 'function' || typeof URL.createObjectURL !== 'function') {
+    workerFailed = true;
+    return null;
+  }
+
+  try {
+    const url = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+    worker = new Worker(url);
+    URL.revokeObjectURL(url);
+  } catch {
+    // e.g. a Content Security Policy without blob: workers
+    workerFailed = true;
+    return null;
+  }
+
+  worker.onmessage = (event: MessageEvent) => {
+    const { id, bitmap, error } = event.data;
+    const request = pendingRequests.get(id);
+    if (!request) return;
+
+    pendingRequests.delete(id);
+    if (bitmap) {
+      request.resolve(bitmap);
+    } else {
+      request.reject(new Error(error));
+    }
+  };
+
+  // A worker that can't run fails every request, which then fall back to an Image element
+  worker.onerror = () => {
+    workerFailed = true;
+    if (worker) {
+      worker.terminate();
+      worker = null;
+    }
+    pendingRequests.forEach((request) => request.reject(new Error('Decode worker failed')));
+    pendingRequests.clear();
+  };
+
+  return worker;
+}
+
+function decodeInWorker(
+  decodeWorker: Worker,
+  source: string,
+  cache: RequestCache
+): Promise<ImageBitmap> {
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId;
+    nextRequestId += 1;
+    pendingRequests.set(id, { resolve, reject });
+    decodeWorker.postMessage({ id, source, cache });
+  });
+}
+
+async function decodeOnMainThread(source: string, cache: RequestCache): Promise<ImageBitmap> {
+  const response = await fetch(source, { mode: 'cors', cache });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+  const blob = await response.blob();
+  return createImageBitmap(blob, { premultiplyAlpha: 'none' });
+}
+
+/**
+ * Load through an Image element, the path for browsers without ImageBitmap
+ */
+function loadWithImageElement(source: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = '';
+    img.decoding = 'async';
+    img.addEventListener('load', () => resolve(img));
+    img.addEventListener('error', () => reject(new Error(`Failed to load ${source}`)));
+    img.src = source;
+  });
+}
+
+/**
+ * Fetch and decode an image, ready to upload as a texture. 'force-cache' takes any cached
+ * copy, even a stale one, before going to the network.
+ */
+export async function loadDecodedImage(
+  source: string,
+  cache: RequestCache = 'default'
+): Promise<DecodedImage> {
+  if (!supportsImageBitmap()) {
+    return loadWithImageElement(source);
+  }
+
+  // Any failure retries once through an Image element, which handles every source the old path did
+  try {
+    const decodeWorker = getWorker();
+    return await (decodeWorker
+      ? decodeInWorker(decodeWorker, source, cache)
+      : decodeOnMainThread(source, cache));
+  } catch {
+    return loadWithImageElement(source);
+  }
+}
+
+/**
+ * Release the memory held by a decoded image once it has been uploaded
+ */
+export function releaseDecodedImage(image: DecodedImage): void {
+  if ('close' in image) {
+    image.close();
+  }
+}
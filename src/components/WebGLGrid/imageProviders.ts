@@ -0,0 +1,120 @@
+/**
+ * URL builders for the image CDNs the archive can be served from
+ */
+
+import type { ImageProviderName, ImageUrlProvider, ImageVariant } from './types';
+
+// Widths Webflow writes responsive copies at, as `name-p-800.jpeg` next to the upload
+const WEBFLOW_WIDTHS = [500, 800, 1080, 1600, 2000, 2600, 3200];
+
+/**
+ * Append query parameters, keeping any the CMS URL already has
+ */
+function withParams(url: string, params: [string, string | number][]): string {
+  const query = params.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join('&');
+  return `${url}${url.includes('?') ? '&' : '?'}${query}`;
+}
+
+/**
+ * Format names for CDNs that call JPEG "jpg"
+ */
+function toJpgFormat(format: ImageVariant['format']): string {
+  return format === 'jpeg' ? 'jpg' : format;
+}
+
+/**
+ * Contentful-style query parameters, e.g. `?h=800&fm=webp&q=70&fit=fill`
+ */
+const contentful: ImageUrlProvider = {
+  getUrl(image, { dimension, size, format, quality }) {
+    return withParams(image.file.url, [
+      [dimension === 'width' ? 'w' : 'h', size],
+      ['fm', format],
+      ['q', quality],
+      ['fit', 'fill'],
+    ]);
+  },
+};
+
+/**
+ * Imgix rendering parameters, e.g. `?w=800&fm=avif&q=70`
+ */
+const imgix: ImageUrlProvider = {
+  getUrl(image, { dimension, size, format, quality }) {
+    return withParams(image.file.url, [
+      [dimension === 'width' ? 'w' : 'h', size],
+      ['fm', toJpgFormat(format)],
+      ['q', quality],
+    ]);
+  },
+};
+
+/**
+ * Cloudinary transformations after `/upload/`, e.g. `/upload/h_800,f_webp,q_70,c_limit/id.jpg`.
+ * URLs without an upload segment are left as they are.
+ */
+const cloudinary: ImageUrlProvider = {
+  getUrl(image, { dimension, size, format, quality }) {
+    const { url } = image.file;
+    const marker = '/upload/';
+    const index = url.indexOf(marker);
+    if (index === -1) return url;
+
+    const transformation = [
+      `${dimension === 'width' ? 'w' : 'h'}_${size}`,
+      `f_${toJpgFormat(format)}`,
+      `q_${quality}`,
+      'c_limit',
+    ].join(',');
+    const start = index + marker.length;
+    return `${url.slice(0, start)}${transformation}/${url.slice(start)}`;
+  },
+};
+
+/**
+ * Webflow's responsive copy of at least the wanted width. Webflow only makes copies smaller
+ * than the upload and can't convert formats, so larger sizes get the original file.
+ */
+const webflow: ImageUrlProvider = {
+  getUrl(image, { dimension, size }) {
+    const { url } = image.file;
+    const { width, height } = image.file.details.image;
+    const wantedWidth = dimension === 'width' ? size : (size * width) / height;
+    const copyWidth = WEBFLOW_WIDTHS.find((copy) => copy >= wantedWidth && copy < width);
+    if (!copyWidth) return url;
+
+    // Copies of .jpg uploads are written as .jpeg
+    return url.replace(
+      /\.([a-z0-9]+)(\?.*)?$/i,
+      (_match: string, extension: string, query = '') =>
+        `-p-${copyWidth}.${extension.toLowerCase() === 'jpg' ? 'jpeg' : extension}${query}`
+    );
+  },
+};
+
+/**
+ * The CMS URL unchanged, for hosts without image transformations
+ */
+const passthrough: ImageUrlProvider = {
+  getUrl(image) {
+    return image.file.url;
+  },
+};
+
+export const IMAGE_URL_PROVIDERS: Record<ImageProviderName, ImageUrlProvider> = {
+  contentful,
+  imgix,
+  cloudinary,
+  webflow,
+  passthrough,
+};
+
+/**
+ * Built-in provider by name, or a custom provider as given
+ */
+export function getImageUrlProvider(
+  provider: ImageProviderName | ImageUrlProvider
+): ImageUrlProvider {
+  if (typeof provider !== 'string') return provider;
+  return IMAGE_URL_PROVIDERS[provider] ?? contentful;
+}
@@ -0,0 +1,77 @@
+/**
+ * Image URL helpers shared by the archive renderers
+ */
+
+import type { CMSImage } from '../../utils/imageDataParser';
+import { getImageUrlProvider } from './imageProviders';
+import type { GridOptions, ImageVariant, ImageVariantTable } from './types';
+
+export type ImageFileFormat = 'avif' | 'webp' | 'originalFormat';
+
+export interface ImageSourceOptions {
+  fileFormat: ImageFileFormat;
+  pixelRatio: number;
+  sizes: ImageVariantTable; // CSS pixels, smaller on mobile
+  quality: ImageVariantTable;
+  provider: GridOptions['imageProvider'];
+  sizing: GridOptions['imageSizing'];
+}
+
+const AVIF_TEST_IMAGE =
+  'AAAAIGZ0eXBhdmlmAAAAAGF2aWZtaWYxbWlhZk1BMUIAAADybWV0YQAAAAAAAAAoaGRscgAAAAAAAAAAcGljdAAAAAAAAAAAAAAAAGxpYmF2aWYAAAAADnBpdG0AAAAAAAEAAAAeaWxvYwAAAABEAAABAAEAAAABAAABGgAAAB0AAAAoaWluZgAAAAAAAQAAABppbmZlAgAAAAABAABhdjAxQ29sb3IAAAAAamlwcnAAAABLaXBjbwAAABRpc3BlAAAAAAAAAAIAAAACAAAAEHBpeGkAAAAAAwgICAAAAAxhdjFDgQ0MAAAAABNjb2xybmNseAACAAIAAYAAAAAXaXBtYQAAAAAAAAABAAEEAQKDBAAAACVtZGF0EgAKCBgANogQEAwgMg8f8D///8WfhwB8+ErK42A=';
+const WEBP_TEST_IMAGE =
+  'UklGRjoAAABXRUJQVlA4IC4AAACyAgCdASoCAAIALmk0mk0iIiIiIgBoSygABc6WWgAA/veff/0PP8bA//LwYAAA';
+
+let formatDetection: Promise<ImageFileFormat> | null = null;
+
+/**
+ * Check if the browser can decode a base64 encoded test image
+ */
+function isFormatSupported(format: string, base64Data: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => resolve(true);
+    img.onerror = () => resolve(false);
+    img.src = `data:image/${format};base64,${base64Data}`;
+  });
+}
+
+/**
+ * Detect the best supported file format (AVIF, then WebP). Runs once per page.
+ */
+export function detectImageFileFormat(): Promise<ImageFileFormat> {
+  if (!formatDetection) {
+    formatDetection = (async () => {
+      if (await isFormatSupported('avif', AVIF_TEST_IMAGE)) return 'avif';
+      if (await isFormatSupported('webp', WEBP_TEST_IMAGE)) return 'webp';
+      return 'originalFormat';
+    })();
+  }
+  return formatDetection;
+}
+
+/**
+ * Get image source URL with the best supported format and the configured size and quality
+ */
+export function getImageSource(image: CMSImage, options: ImageSourceOptions, isHD = false): string {
+  const { fileFormat, pixelRatio, provider, sizing, sizes, quality } = options;
+
+  const format: ImageVariant['format'] =
+    fileFormat === 'originalFormat'
+      ? image.file.contentType === 'image/jpeg'
+        ? 'jpeg'
+        : 'png'
+      : fileFormat;
+
+  const variant = isHD ? 'hd' : 'sd';
+
+  // Limit size to original image dimensions
+  const requestedSize = Math.min(sizes[variant] * pixelRatio, image.file.details.image[sizing]);
+
+  return getImageUrlProvider(provider).getUrl(image, {
+    dimension: sizing,
+    size: Math.ceil(requestedSize),
+    format,
+    quality: quality[variant],
+  });
+}
@@ -0,0 +1,103 @@
+import type { CMSImage } from '../../utils/imageDataParser';
+import { shuffleArray } from '../../utils/random';
+
+// Duplicate CMS entries of the same picture count as the same image
+function getImageKey(image: CMSImage): string {
+  return image.file.url;
+}
+
+/**
+ * Fill a columns x rows grid (row-major) from the images using the given random source.
+ * The grid wraps on both axes, and no image is placed next to itself horizontally or
+ * vertically, across the wrapped edges too, whenever there are enough distinct images.
+ * Cells with an entry in `fixed` keep that image and the others are filled around them.
+ */
+export function createGridLayout(
+  images: CMSImage[],
+  columns: number,
+  rows: number,
+  random: () => number,
+  fixed: (CMSImage | null)[] = []
+): CMSImage[] {
+  const layout: CMSImage[] = [];
+  if (images.length === 0) return layout;
+
+  // Draw from shuffled decks so every image is used about equally often
+  let deck: CMSImage[] = [];
+
+  for (let row = 0; row < rows; row += 1) {
+    for (let column = 0; column < columns; column += 1) {
+      const index = row * columns + column;
+      if (fixed[index]) {
+        layout.push(fixed[index]);
+        continue;
+      }
+
+      const neighbours = new Set<string>();
+      if (column > 0) neighbours.add(getImageKey(layout[row * columns + column - 1]));
+      if (row > 0) neighbours.add(getImageKey(layout[(row - 1) * columns + column]));
+
+      // The last column and row also touch the first ones once the grid wraps
+      if (column === columns - 1 && column > 0) {
+        neighbours.add(getImageKey(layout[row * columns]));
+      }
+      if (row === rows - 1 && row > 0) {
+        neighbours.add(getImageKey(layout[column]));
+      }
+
+      // Fixed cells to the right and below are already decided too
+      const fixedRight = column < columns - 1 ? fixed[index + 1] : null;
+      if (fixedRight) {
+        neighbours.add(getImageKey(fixedRight));
+      }
+      const fixedBelow = row < rows - 1 ? fixed[index + columns] : null;
+      if (fixedBelow) {
+        neighbours.add(getImageKey(fixedBelow));
+      }
+
+      // And so are fixed cells across the wrapped edges, in the last column and row
+      const wrappedLeft = row * columns + columns - 1;
+      if (column === 0 && columns > 1 && fixed[wrappedLeft]) {
+        neighbours.add(getImageKey(fixed[wrappedLeft]));
+      }
+      const wrappedAbove = (rows - 1) * columns + column;
+      if (row === 0 && rows > 1 && fixed[wrappedAbove]) {
+        neighbours.add(getImageKey(fixed[wrappedAbove]));
+      }
+
+      if (deck.length === 0) deck = shuffleArray(images, random);
+
+      let pick = deck.findIndex((image) => !neighbours.has(getImageKey(image)));
+      if (pick === -1) {
+        // Only neighbours left in this deck, so open the next one
+        deck = [...deck, ...shuffleArray(images, random)];
+        pick = deck.findIndex((image) => !neighbours.has(getImageKey(image)));
+      }
+
+      // Too few distinct images to avoid every neighbour
+      if (pick === -1) pick = 0;
+
+      layout.push(deck[pick]);
+      deck.splice(pick, 1);
+    }
+  }
+
+  return layout;
+}
+
+/**
+ * Refill a layout with only the images of one event. Cells that already show one of them
+ * keep it, so matching tiles stay where they are while the rest of the grid fills in.
+ */
+export function createEventLayout(
+  images: CMSImage[],
+  current: CMSImage[],
+  eventId: string,
+  columns: number,
+  rows: number,
+  random: () => number
+): CMSImage[] {
+  const matching = images.filter((image) => image.eventId === eventId);
+  const fixed = current.map((image) => (matching.includes(image) ? image : null));
+  return createGridLayout(matching, columns, rows, random, fixed);
+}
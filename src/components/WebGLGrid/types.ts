@@ -1,8 +1,135 @@
+import type { CMSImage } from '../../utils/imageDataParser';
+import type { ArchiveEvents } from './ArchiveEvents';
+import type { QualityTier } from './QualityGovernor';
+
+// Public surface ArchiveView relies on, shared by the WebGL grid and its DOM fallback
+export interface ArchiveRenderer {
+  isIntroShown: boolean;
+  grayscale: number;
+  onIntroMostlyDone: (() => void) | null;
+  onTileClick: ((image: CMSImage, index: number) => void) | null;
+  onTileFocus: ((image: CMSImage, index: number) => void) | null;
+  onTileHover: ((hover: TileHover | null) => void) | null; // Null once no tile is under the pointer
+  onContextLost: (() => void) | null;
+  onContextRestored: (() => void) | null;
+  onCameraChange: (() => void) | null;
+  onInvalidate: (() => void) | null; // Something changed while the render loop may be idle
+  events: ArchiveEvents;
+  startIntroSequence(): void;
+  zoom(action: string): void;
+  setWindow(): void;
+  render(time?: number): boolean;
+  needsRender(): boolean;
+  getImageSources(isHD?: boolean): string[];
+  getCenteredImage(): CMSImage | null; // Image of the tile nearest the view center
+  getCameraState(): CameraState;
+  flyTo(target: number | string, options?: CameraMoveOptions): boolean;
+  panBy(dx: number, dy: number, options?: CameraMoveOptions): void;
+  setZoom(zoom: number, focal?: { x: number; y: number }, options?: CameraMoveOptions): void;
+  getSeed(): number;
+  setFilter(eventId: string | null): void; // Only show tiles of one event, null shows all
+  setQuality?(tier: QualityTier): void;
+  destroy(): void;
+}
+
+// Tile under the pointer and where it is drawn, in CSS pixels relative to the viewport
+export interface TileHover {
+  image: CMSImage;
+  index: number;
+  bounds: Bounds;
+}
+
+// View a new grid opens on: a shared link's camera, or with `resume` the session's last view,
+// which fades straight in instead of playing the intro
+export interface InitialView extends Partial<CameraState> {
+  resume?: boolean;
+}
+
+// Events other modules can subscribe to through `events.on(type, listener)`
+export interface ArchiveEventMap {
+  zoomchange: { zoom: number };
+  panend: CameraState; // The pan came to rest after a drag, scroll, keys or a camera move
+  tilehover: TileHover | null;
+  tileclick: { image: CMSImage; index: number };
+  introcomplete: CameraState;
+}
+
+// Camera moves from code; a duration of 0 jumps straight there
+export interface CameraMoveOptions {
+  zoom?: number; // Only used by flyTo, defaults to the current zoom
+  duration?: number; // Seconds
+}
+
+// A reproducible view: pan offset in CSS pixels at zoom 1, zoom level and shuffle seed
+export interface CameraState {
+  x: number;
+  y: number;
+  zoom: number;
+  seed: number;
+}
+
+// Layout, motion and look of the archive grid. Sizes and gaps are CSS pixels at zoom 1.
 export interface GridOptions {
-  images: string[];
-  pixelRatio?: number;
   columnCount: number;
   rowCount: number;
+  pixelRatio?: number; // Defaults to the device pixel ratio, capped at 2 on mobile
+  maxPixelRatio?: number; // Starting cap below pixelRatio, raised and lowered by the quality governor
+  seed?: number; // Fixed layout seed, e.g. for visual regression tests
+  gridScale?: number; // Fraction of columns and rows to build, e.g. for low-end devices
+  itemWidth: number;
+  itemHeight: number;
+  horizontalGap: number;
+  verticalGap: number;
+  introHorizontalGap: number; // Gaps the intro opens up to
+  introVerticalGap: number;
+  introStartZoom: number;
+  introZoom: number;
+  introDuration: number; // Seconds
+  scrollLerp: number; // Smoothing applied to wheel/trackpad panning
+  dragLerp: number; // Smoothing applied to pointer dragging
+  friction: number; // Momentum kept per frame after a drag
+  minZoom: number;
+  maxZoom: number;
+  backgroundColor: string; // Hex colour behind and between tiles
+  layout: 'grid' | 'masonry'; // Masonry keeps each image's aspect ratio; the DOM fallback is always a grid
+  textureBudget: number; // Megabytes of HD textures kept on the GPU
+  maxConcurrentLoads: number; // HD images fetched at the same time
+  maxVideoDecoders: number; // Video tiles playing at the same time, 0 shows only stills
+  effects: PostEffectOptions; // Full-screen effects, none by default
+  imageProvider: ImageProviderName | ImageUrlProvider; // CDN building the sized image URLs
+  imageSizing: 'height' | 'width'; // Side the size tables apply to; width suits masonry
+  imageSizes: ImageVariantTable; // CSS pixels along imageSizing, scaled by the pixel ratio
+  imageQuality: ImageVariantTable; // Encoder quality from 1 to 100
+}
+
+// One value for the standard images the grid shows and one for the HD ones streamed in
+export interface ImageVariantTable {
+  sd: number;
+  hd: number;
+}
+
+export type ImageProviderName = 'contentful' | 'imgix' | 'cloudinary' | 'webflow' | 'passthrough';
+
+// One sized, encoded copy of an image
+export interface ImageVariant {
+  dimension: 'width' | 'height'; // Side the size applies to; the other follows the aspect ratio
+  size: number; // Pixels, never above the original's
+  format: 'avif' | 'webp' | 'jpeg' | 'png'; // Best the browser decodes, kept by CDNs that convert
+  quality: number; // 1 to 100
+}
+
+// Turns a CMS image and the variant the grid wants into the URL to fetch
+export interface ImageUrlProvider {
+  getUrl(image: CMSImage, variant: ImageVariant): string;
+}
+
+// Strength of each post-processing effect from 0 to 1; leave out or use 0 to turn one off
+export interface PostEffectOptions {
+  rgbShift?: number; // Colour split along the pan direction, grows with speed
+  barrel?: number; // Lens bulge, grows with speed
+  grain?: number; // Animated film grain
+  vignette?: number; // Darkened corners
+  spotlight?: number; // Dims everything but the area around the pointer
 }
 
 export interface ImageInfo {
@@ -44,6 +171,21 @@ export interface WebGLLocations {
   opacity: WebGLUniformLocation;
 }
 
+export interface InstancedLocations {
+  position: number;
+  rect: number;
+  uv: number;
+  state: number;
+  color: number;
+  placeholderUv: number;
+  resolution: WebGLUniformLocation | null;
+  borderWidth: WebGLUniformLocation | null;
+  atlas: WebGLUniformLocation | null;
+  placeholders: WebGLUniformLocation | null;
+  grayscale: WebGLUniformLocation | null;
+  background: WebGLUniformLocation | null;
+}
+
 export interface WebGLBuffers {
   position: WebGLBuffer;
   texCoord: WebGLBuffer;
@@ -59,6 +201,13 @@ export interface BoundEvents {
   resize: () => void;
 }
 
+// Non-standard Safari trackpad pinch event
+export interface GestureEvent extends UIEvent {
+  scale: number;
+  clientX: number;
+  clientY: number;
+}
+
 export interface SceneDimensions {
   width: number;
   height: number;
@@ -659,6 +659,10 @@ barba.init({
     // Home page view
     {
       namespace: 'index',
+      beforeEnter() {
+        // Links such as archive tiles carry the event to open in the URL
+        directLinkHandler.refreshFromURL();
+      },
       afterEnter() {
         restartWebflow();
         initializeAccordion();
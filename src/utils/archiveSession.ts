@@ -0,0 +1,73 @@
+/**
+ * Archive view remembered for the browsing session, so coming back to the archive resumes
+ * the same shuffle and camera instead of starting over. Kept in memory for Barba navigations
+ * and mirrored to sessionStorage for full page loads in the same tab.
+ */
+
+export interface ArchiveSession {
+  x: number;
+  y: number;
+  zoom: number;
+  seed: number;
+  filter: string | null; // Event the grid was filtered to
+  columns: number; // Grid size the seed was laid out at; another size puts other tiles there
+  rows: number;
+}
+
+const STORAGE_KEY = 'archive-session';
+
+let currentSession: ArchiveSession | null = null;
+
+/**
+ * Check a stored value has every number as a finite number and a filter, if any, as text
+ */
+function isArchiveSession(value: unknown): value is ArchiveSession {
+  if (!value || typeof value !== 'object') return false;
+
+  const session = value as Record<string, unknown>;
+  return (
+    ['x', 'y', 'zoom', 'seed', 'columns', 'rows'].every(
+      (key) => typeof session[key] === 'number' && Number.isFinite(session[key])
+    ) &&
+    (session.filter === null || typeof session.filter === 'string')
+  );
+}
+
+/**
+ * Last archive view of this session, or null on the first visit
+ */
+export function getArchiveSession(): ArchiveSession | null {
+  if (currentSession) return currentSession;
+
+  try {
+    const stored = window.sessionStorage.getItem(STORAGE_KEY);
+    const session = stored ? JSON.parse(stored) : null;
+    currentSession = isArchiveSession(session) && session.zoom > 0 ? session : null;
+  } catch {
+    // Storage can be disabled or full; memory still covers Barba navigations
+    currentSession = null;
+  }
+
+  return currentSession;
+}
+
+/**
+ * Remember the archive view for the next visit in this session
+ */
+export function saveArchiveSession(session: ArchiveSession): void {
+  currentSession = {
+    x: session.x,
+    y: session.y,
+    zoom: session.zoom,
+    seed: session.seed,
+    filter: session.filter,
+    columns: session.columns,
+    rows: session.rows,
+  };
+
+  try {
+    window.sessionStorage.setItem(STORAGE_KEY, JSON.stringify(currentSession));
+  } catch {
+    // Keep the in-memory copy only
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Minimal BlurHash decoder (https://blurha.sh) for image placeholders
+ */
+
+const BASE83_DIGITS =
+  '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+/**
+ * Decode a base 83 string into an integer, or -1 for invalid characters
+ */
+function decode83(value: string): number {
+  let result = 0;
+  for (const character of value) {
+    const digit = BASE83_DIGITS.indexOf(character);
+    if (digit === -1) return -1;
+    result = result * 83 + digit;
+  }
+  return result;
+}
+
+function sRGBToLinear(value: number): number {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+}
+
+function linearToSRGB(value: number): number {
+  const v = Math.max(0, Math.min(1, value));
+  return v <= 0.0031308
+    ? Math.round(v * 12.92 * 255 + 0.5)
+    : Math.round((1.055 * v ** (1 / 2.4) - 0.055) * 255 + 0.5);
+}
+
+function signPow(value: number, exponent: number): number {
+  return Math.sign(value) * Math.abs(value) ** exponent;
+}
+
+/**
+ * Check the length matches the component count encoded in the first character
+ */
+export function isBlurhashValid(hash: string): boolean {
+  if (!hash || hash.length < 6) return false;
+
+  const sizeFlag = decode83(hash[0]);
+  if (sizeFlag < 0 || decode83(hash.slice(1)) < 0) return false;
+
+  const componentsY = Math.floor(sizeFlag / 9) + 1;
+  const componentsX = (sizeFlag % 9) + 1;
+  return hash.length === 4 + 2 * componentsX * componentsY;
+}
+
+/**
+ * Decode a BlurHash into RGBA pixels of the given size
+ */
+export function decodeBlurhash(hash: string, width: number, height: number): Uint8ClampedArray {
+  const sizeFlag = decode83(hash[0]);
+  const componentsY = Math.floor(sizeFlag / 9) + 1;
+  const componentsX = (sizeFlag % 9) + 1;
+  const maximumValue = (decode83(hash[1]) + 1) / 166;
+
+  // First component is the average colour, the rest are cosine weights
+  const colors: [number, number, number][] = [];
+  for (let i = 0; i < componentsX * componentsY; i += 1) {
+    if (i === 0) {
+      const value = decode83(hash.slice(2, 6));
+      colors.push([
+        sRGBToLinear(value >> 16),
+        sRGBToLinear((value >> 8) & 255),
+        sRGBToLinear(value & 255),
+      ]);
+    } else {
+      const value = decode83(hash.slice(4 + i * 2, 6 + i * 2));
+      colors.push([
+        signPow((Math.floor(value / (19 * 19)) - 9) / 9, 2) * maximumValue,
+        signPow(((Math.floor(value / 19) % 19) - 9) / 9, 2) * maximumValue,
+        signPow(((value % 19) - 9) / 9, 2) * maximumValue,
+      ]);
+    }
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+
+      for (let j = 0; j < componentsY; j += 1) {
+        for (let i = 0; i < componentsX; i += 1) {
+          const basis = Math.cos((Math.PI * x * i) / width) * Math.cos((Math.PI * y * j) / height);
+          const color = colors[i + j * componentsX];
+          r += color[0] * basis;
+          g += color[1] * basis;
+          b += color[2] * basis;
+        }
+      }
+
+      const index = 4 * (x + y * width);
+      pixels[index] = linearToSRGB(r);
+      pixels[index + 1] = linearToSRGB(g);
+      pixels[index + 2] = linearToSRGB(b);
+      pixels[index + 3] = 255;
+    }
+  }
+
+  return pixels;
+}
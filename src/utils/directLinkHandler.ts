@@ -9,6 +9,8 @@ export class DirectLinkHandler {
   private targetEventId: string | null = null;
   private hasDirectLink: boolean = false;
   private accordionOpened: boolean = false;
+  private isOpening: boolean = false;
+  private isFromNavigation: boolean = false; // Target came from a page transition, not a page load
 
   private constructor() {
     const params = getEventParams();
@@ -43,7 +45,7 @@ export class DirectLinkHandler {
    * Should use modified preloader sequence for direct links (logo only, no video)
    */
   public shouldUseModifiedPreloader(): boolean {
-    return this.hasDirectLink;
+    return this.hasDirectLink && !this.isFromNavigation;
   }
 
   /**
@@ -64,7 +66,8 @@ export class DirectLinkHandler {
    * Open the target accordion with coordinated preloader transition
    */
   public async openTargetAccordion(coordinateWithPreloader: boolean = false): Promise<void> {
-    if (!this.targetEventId || this.accordionOpened) return;
+    if (!this.targetEventId || this.accordionOpened || this.isOpening) return;
+    this.isOpening = true;
 
     // Refresh autoplay detection to make sure we have the latest state
     autoplayStateManager.refreshDirectLinkDetection();
@@ -75,6 +78,7 @@ export class DirectLinkHandler {
     // Find the accordion item
     const accordionItem = document.getElementById(this.targetEventId);
     if (!accordionItem || !accordionItem.classList.contains('js-accordion-item')) {
+      this.isOpening = false;
       return;
     }
 
@@ -84,6 +88,7 @@ export class DirectLinkHandler {
     // Check if accordion functionality is available
     if (!this.isAccordionReady()) {
       // Retry after a longer delay
+      this.isOpening = false;
       setTimeout(() => {
         this.openTargetAccordion(coordinateWithPreloader);
       }, 1000);
@@ -92,6 +97,7 @@ export class DirectLinkHandler {
 
     // Mark as opened to prevent multiple attempts
     this.accordionOpened = true;
+    this.isOpening = false;
 
     // Mark user interaction for autoplay management
     // Note: We're NOT marking interaction here because we want the first video
@@ -233,6 +239,20 @@ export class DirectLinkHandler {
     }
   }
 
+  /**
+   * Pick up an event parameter after a page transition, e.g. from an archive tile link.
+   * The preloader has already played by then, so the accordion opens the standard way.
+   */
+  public refreshFromURL(): void {
+    const params = getEventParams();
+    if (params.event && isValidEventId(params.event)) {
+      this.targetEventId = params.event;
+      this.hasDirectLink = true;
+      this.isFromNavigation = true;
+      this.accordionOpened = false;
+    }
+  }
+
   /**
    * Reset the handler (useful for navigation)
    */
@@ -1,3 +1,19 @@
+/**
+ * Per-image metadata for the archive, read from the CMS markup.
+ *
+ * Each `.cms-image` can describe itself with data-* attributes:
+ *   <img class="cms-image" src="…" data-width="1600" data-height="2400"
+ *        data-content-type="image/jpeg" data-color="#2A1F1B" data-event-id="vtss"
+ *        data-caption="…" data-date="2024-05-18" data-blurhash="LEHV6nWB2yk8pyo0adR*.7kCMdnj"
+ *        data-video="https://…/clip.m3u8">
+ * or with a JSON script right after the image, or inside its Webflow collection item
+ * (`.w-dyn-item`), using the same names in camelCase:
+ *   <script type="application/json">{"width": 1600, "height": 2400, "eventId": "vtss"}</script>
+ * data-* attributes win over the JSON when both are present.
+ */
+
+import { isBlurhashValid } from './blurhash';
+
 export interface CMSImage {
   file: {
     url: string;
@@ -10,4 +26,201 @@ export interface CMSImage {
     contentType: string;
     color: string;
   };
+  alt: string;
+  eventId: string | null;
+  caption: string;
+  date: string | null;
+  blurhash: string | null; // Tiny placeholder shown until the image loads
+  lqip: string | null; // Or an inline low-quality data URI
+  video: string | null; // HLS or MP4 clip looped on the tile in place of the still
+}
+
+// Fields the CMS may provide for one image
+interface CMSImageFields {
+  width?: number;
+  height?: number;
+  contentType?: string;
+  color?: string;
+  eventId?: string;
+  caption?: string;
+  date?: string;
+  blurhash?: string;
+  lqip?: string;
+  video?: string;
+}
+
+const DEFAULT_COLOR = '#0F0F0F';
+const DEFAULT_SIZE = { width: 800, height: 1200 };
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  gif: 'image/gif',
+};
+
+/**
+ * Parse a positive number, or undefined
+ */
+function toPositiveNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+/**
+ * Trimmed non-empty string, or undefined
+ */
+function toText(value: unknown): string | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const text = String(value).trim();
+  return text === '' ? undefined : text;
+}
+
+/**
+ * Normalise #rgb and #rrggbb colours to #rrggbb, or undefined if not a hex colour
+ */
+export function toHexColor(value: unknown): string | undefined {
+  const text = toText(value);
+  if (!text) return undefined;
+
+  const match = /^#?([a-f\d]{3}|[a-f\d]{6})$/i.exec(text);
+  if (!match) return undefined;
+
+  const hex =
+    match[1].length === 3
+      ? match[1]
+          .split('')
+          .map((digit) => digit + digit)
+          .join('')
+      : match[1];
+  return `#${hex.toUpperCase()}`;
+}
+
+/**
+ * Keep dates the browser can parse, as written in the CMS
+ */
+function toDate(value: unknown): string | undefined {
+  const text = toText(value);
+  return text && !Number.isNaN(Date.parse(text)) ? text : undefined;
+}
+
+/**
+ * Keep well-formed BlurHash strings
+ */
+function toBlurhash(value: unknown): string | undefined {
+  const text = toText(value);
+  return text && isBlurhashValid(text) ? text : undefined;
+}
+
+/**
+ * Keep inline image data URIs, never remote URLs
+ */
+function toDataURI(value: unknown): string | undefined {
+  const text = toText(value);
+  return text && text.startsWith('data:image/') ? text : undefined;
+}
+
+/**
+ * Only keep the fields that hold a valid value
+ */
+function readFields(source: Record<string, unknown>): CMSImageFields {
+  const fields: CMSImageFields = {
+    width: toPositiveNumber(source.width),
+    height: toPositiveNumber(source.height),
+    contentType: toText(source.contentType),
+    color: toHexColor(source.color),
+    eventId: toText(source.eventId),
+    caption: toText(source.caption),
+    date: toDate(source.date),
+    blurhash: toBlurhash(source.blurhash),
+    lqip: toDataURI(source.lqip),
+    video: toText(source.video),
+  };
+
+  (Object.keys(fields) as (keyof CMSImageFields)[]).forEach((key) => {
+    if (fields[key] === undefined) delete fields[key];
+  });
+
+  return fields;
+}
+
+/**
+ * The JSON script describing this image: its next sibling, or the one in its collection item.
+ * Images sharing a parent must not pick up each other's script.
+ */
+function getEmbeddedScript(image: HTMLImageElement): Element | null {
+  const selector = 'script[type="application/json"]';
+  const sibling = image.nextElementSibling;
+  if (sibling && sibling.matches(selector)) return sibling;
+
+  const item = image.closest('.w-dyn-item');
+  return item && item.querySelectorAll('.cms-image').length === 1
+    ? item.querySelector(selector)
+    : null;
+}
+
+/**
+ * Read the JSON script next to the image, if any
+ */
+function readEmbeddedFields(image: HTMLImageElement): CMSImageFields {
+  const script = getEmbeddedScript(image);
+  if (!script || !script.textContent) return {};
+
+  try {
+    const data = JSON.parse(script.textContent);
+    return data && typeof data === 'object' ? readFields(data) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Guess the MIME type from the file extension in the URL
+ */
+function getContentTypeFromUrl(url: string): string {
+  const extension = url.split('?')[0].split('.').pop()?.toLowerCase() || '';
+  return CONTENT_TYPES[extension] || 'image/jpeg';
+}
+
+/**
+ * Build the archive's image record for one `.cms-image`
+ */
+export function parseCMSImage(image: HTMLImageElement): CMSImage {
+  const fields = { ...readEmbeddedFields(image), ...readFields({ ...image.dataset }) };
+  const url = image.src;
+
+  // Width and height only make sense as a pair, so take both from the same source
+  let size = { ...DEFAULT_SIZE };
+  if (fields.width && fields.height) {
+    size = { width: fields.width, height: fields.height };
+  } else if (image.naturalWidth > 0 && image.naturalHeight > 0) {
+    size = { width: image.naturalWidth, height: image.naturalHeight };
+  }
+
+  return {
+    file: {
+      url,
+      details: {
+        image: size,
+      },
+      contentType: fields.contentType || getContentTypeFromUrl(url),
+      color: fields.color || DEFAULT_COLOR,
+    },
+    alt: image.alt || '',
+    eventId: fields.eventId ?? null,
+    caption: fields.caption ?? '',
+    date: fields.date ?? null,
+    blurhash: fields.blurhash ?? null,
+    lqip: fields.lqip ?? null,
+    video: fields.video ?? null,
+  };
+}
+
+/**
+ * Parse every `.cms-image` inside the container, in document order
+ */
+export function parseCMSImages(container: ParentNode): CMSImage[] {
+  return Array.from(container.querySelectorAll<HTMLImageElement>('.cms-image')).map(parseCMSImage);
 }
@@ -0,0 +1,37 @@
+// Seeded random helpers for reproducible layouts
+
+/**
+ * Create a random 32-bit unsigned seed
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Create a deterministic random generator (mulberry32) returning values in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+/**
+ * Fisher-Yates shuffle of a copy of the array using the given random source
+ */
+export function shuffleArray<T>(arr: T[], random: () => number = Math.random): T[] {
+  const array = [...arr];
+
+  for (let i = array.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [array[i], array[j]] = [array[j], array[i]];
+  }
+
+  return array;
+}
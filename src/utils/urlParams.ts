@@ -5,6 +5,13 @@ export interface EventParams {
   event: string | null;
 }
 
+export interface CameraParams {
+  x: number | null;
+  y: number | null;
+  zoom: number | null;
+  seed: number | null;
+}
+
 /**
  * Extract event parameter from URL
  */
@@ -49,3 +56,70 @@ export function clearEventFromURL(): void {
     }
   }
 }
+
+/**
+ * Parse a numeric URL parameter, ignoring missing or malformed values
+ */
+function getNumberParam(urlParams: URLSearchParams, name: string): number | null {
+  const value = urlParams.get(name);
+  if (value === null || value.trim() === '') return null;
+
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Extract archive camera parameters (pan, zoom and shuffle seed) from URL
+ */
+export function getCameraParams(): CameraParams {
+  const urlParams = new URLSearchParams(window.location.search);
+  const seed = getNumberParam(urlParams, 'seed');
+
+  return {
+    x: getNumberParam(urlParams, 'x'),
+    y: getNumberParam(urlParams, 'y'),
+    zoom: getNumberParam(urlParams, 'z'),
+    seed: seed === null ? null : seed >>> 0,
+  };
+}
+
+/**
+ * Write archive camera parameters to URL without adding history entries
+ */
+export function setCameraInURL(camera: { x: number; y: number; zoom: number; seed: number }): void {
+  if (window.history && window.history.replaceState) {
+    const url = new URL(window.location.href);
+    url.searchParams.set('x', `${Math.round(camera.x)}`);
+    url.searchParams.set('y', `${Math.round(camera.y)}`);
+    url.searchParams.set('z', `${Math.round(camera.zoom * 1000) / 1000}`);
+    url.searchParams.set('seed', `${camera.seed}`);
+
+    // Keep the existing history state so page transitions still recognise the entry
+    window.history.replaceState(window.history.state, '', url.toString());
+  }
+}
+
+/**
+ * Extract the archive event filter from URL
+ */
+export function getFilterParam(): string | null {
+  const urlParams = new URLSearchParams(window.location.search);
+  const filter = urlParams.get('filter');
+  return filter && isValidAccordionId(filter) ? filter : null;
+}
+
+/**
+ * Write the archive event filter to URL, or remove it, without adding history entries
+ */
+export function setFilterInURL(eventId: string | null): void {
+  if (window.history && window.history.replaceState) {
+    const url = new URL(window.location.href);
+    if (eventId) {
+      url.searchParams.set('filter', eventId);
+    } else {
+      url.searchParams.delete('filter');
+    }
+
+    window.history.replaceState(window.history.state, '', url.toString());
+  }
+}